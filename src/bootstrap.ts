@@ -5,6 +5,8 @@ import { EventBus, ServiceManager } from "./services";
 import { openConsole } from './console';
 import { resolvePath } from "./util/paths";
 import { DatabaseProvider } from "./services/db-service";
+import { AuditService, AuditSink } from "./services/audit-service";
+import { AuditModule } from "./modules/audit-module";
 import { EventEmitter } from "events";
 import { listenOnEmitter } from "./util/functional";
 import { getid } from "./util/debug";
@@ -135,6 +137,13 @@ export class OBLBootstrap extends EventEmitter {
         return this.then(_ => db.connect())
     }
 
+    /** Record all command invocations into the given sinks, a rotated data file by default, and add the `audit` command */
+    public auditLog(...sinks: AuditSink[]): this {
+        this.serviceManager.addService(new AuditService(...sinks))
+        this.serviceManager.addModule(new AuditModule())
+        return this
+    }
+
     /** Loads all registered services and modules */
     public loadAll(): this {
         return this.then(_ => {
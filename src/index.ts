@@ -1,8 +1,11 @@
 export * from './services'
+export * from './services/audit-service'
 export * from './services/command-service'
 export * from './services/config-service'
 export * from './services/db-service'
 export * from './services/interaction-service'
+export * from './services/i18n-service'
+export * from './services/paginated-result'
 export * from './services/permission-service'
 export * from './util/debug'
 export * from './util/functional'
@@ -13,7 +16,13 @@ export * from './util/optional'
 export * from './util/paths'
 export * from './util/reflect'
 export * from './util/types'
-export { truncate, stringify, isBase10Digit, isCharWhitespace, StringLoc, StringBuilder, StringReader, Parser, ParseContext, ParseError, ParseResult, newAsyncParser, newSyncParser, stringifier, stringifyPretty, StringifyOptions, stripANSIColor, stringTable } from './util/strings'
+export { truncate, stringify, isBase10Digit, isCharWhitespace, StringLoc, StringBuilder, StringReader, Parser, ParseContext, ParseError, ParseResult, newAsyncParser, newSyncParser, withSuggestions, matchSuggestions, editDistance, closestMatches, stringifier, stringifyPretty, StringifyOptions, stripANSIColor, stringTable } from './util/strings'
 export * from './services/db/mongo-db'
 export * from './services/db/mysql-db'
+export * from './modules/alias-module'
+export * from './modules/audit-module'
+export * from './modules/help-module'
+export * from './modules/locale-module'
+export * from './modules/policy-module'
+export * from './modules/prefix-module'
 export * from './bootstrap'
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { PermissionsBitField } from "discord.js";
+import { BotModule, ServiceManager, autoRegister, dependency } from "../services";
+import { CommandAssertions, CommandContext, CommandDispatcher, CommandResult, Parsers, argument, literal } from "../services/command-service";
+import { PaginatedResult } from "../services/paginated-result";
+
+/** The amount of aliases listed per page */
+const ALIASES_PER_PAGE = 10
+
+/** The maximum amount of commands a single alias runs */
+const MAX_ALIAS_COMMANDS = 5
+
+/** Separates the commands of macros */
+const COMMAND_SEPARATOR = ";"
+
+@autoRegister()
+export class AliasModule extends BotModule {
+    @dependency(CommandDispatcher)
+    dispatcher: CommandDispatcher
+
+    onLoad(manager: ServiceManager): void {
+        const manageGuild = CommandAssertions.DiscordPermissions(PermissionsBitField.Flags.ManageGuild)
+
+        this.dispatcher.register(literal("alias")
+            .description("Shows or changes the command aliases of this server")
+            .asserts(CommandAssertions.GuildOnly())
+            .executes(ctx => this.listAliases(ctx))
+            .then(literal("add")
+                .description("Creates or replaces an alias, separate multiple commands with `;` and use `$1` or `$@` for its arguments")
+                .asserts(manageGuild)
+                .thenArgument("name", Parsers.String, name => name
+                    .thenArgument("commands", Parsers.GreedyString, commands => commands
+                        .description("The commands to run without prefix")
+                        .executes(ctx => this.addAlias(ctx, ctx.arg("name").get(), ctx.arg("commands").get())))))
+            .then(literal("remove")
+                .description("Deletes an alias")
+                .asserts(manageGuild)
+                .then(argument("name", Parsers.String)
+                    .suggests(ctx => [...this.dispatcher.guildAliases.all(ctx.guild.get().id).keys()])
+                    .executes(ctx => this.removeAlias(ctx, ctx.arg("name").get()))))
+        )
+    }
+
+    // Create or replace the alias by the given name
+    private addAlias(ctx: CommandContext, name: string, text: string): CommandResult {
+        let guildId = ctx.guild.get().id
+        name = name.toLowerCase()
+        if (/\s/.test(name)) {
+            return ctx.fail(ctx.t("alias.whitespace"))
+        }
+
+        if (this.dispatcher.commandsByName.has(name)) {
+            return ctx.fail(ctx.t("alias.commandName", { name: name }))
+        }
+
+        let commands = text.split(COMMAND_SEPARATOR).map(c => c.trim()).filter(c => c.length > 0)
+        if (commands.length == 0) {
+            return ctx.fail(ctx.t("alias.noCommands"))
+        }
+
+        if (commands.length > MAX_ALIAS_COMMANDS) {
+            return ctx.fail(ctx.t("alias.tooManyCommands", { max: MAX_ALIAS_COMMANDS }))
+        }
+
+        // only allow known commands and aliases
+        for (let command of commands) {
+            let base = command.split(/\s/)[0].toLowerCase()
+            if (!this.dispatcher.commandsByName.has(base) && !this.dispatcher.guildAliases.get(guildId, base) && base != name) {
+                return ctx.fail(ctx.t("alias.unknownCommand", { name: base }))
+            }
+        }
+
+        let replaced = this.dispatcher.guildAliases.get(guildId, name) != undefined
+        this.dispatcher.guildAliases.set(guildId, name, { commands: commands, createdBy: ctx.author.id })
+        return ctx.success(ctx.t(replaced ? "alias.replaced" : "alias.created", { name: name, commands: "`" + commands.join("`, `") + "`" }))
+    }
+
+    // Delete the alias by the given name
+    private removeAlias(ctx: CommandContext, name: string): CommandResult {
+        name = name.toLowerCase()
+        if (!this.dispatcher.guildAliases.remove(ctx.guild.get().id, name)) {
+            return ctx.fail(ctx.t("alias.unknown", { name: name }))
+        }
+
+        return ctx.success(ctx.t("alias.removed", { name: name }))
+    }
+
+    // Render the aliases of the current guild
+    private listAliases(ctx: CommandContext): CommandResult {
+        let guildId = ctx.guild.get().id
+        let prefix = this.dispatcher.getPrefixes(guildId)[0]
+        let aliases = [...this.dispatcher.guildAliases.all(guildId)]
+            .sort((a, b) => a[0].localeCompare(b[0]))
+        if (aliases.length == 0) {
+            return ctx.success(ctx.t("alias.none"))
+        }
+
+        let lines = aliases.map(([name, alias]) => "`" + prefix + name + "` - `" + alias.commands.join(COMMAND_SEPARATOR + " ") + "` by <@" + alias.createdBy + ">")
+        return PaginatedResult.fromItems(ctx, lines, ALIASES_PER_PAGE, ctx.t("alias.title"))
+    }
+}
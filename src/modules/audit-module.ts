@@ -0,0 +1,70 @@
+import { PermissionsBitField, User } from "discord.js";
+import { BotModule, ServiceManager, dependency } from "../services";
+import { AuditEntry, AuditLog } from "../services/audit-service";
+import { CommandAssertions, CommandContext, CommandDispatcher, CommandResult, Parsers, flag, literal } from "../services/command-service";
+import { PaginatedResult } from "../services/paginated-result";
+import { truncate } from "../util/strings";
+
+/** The amount of audit entries listed per page */
+const ENTRIES_PER_PAGE = 10
+
+/** The flags of the audit command */
+type AuditFlags = { user: User, command: string, since: Date, until: Date, limit: number }
+
+/** Adds the `audit` command and records the commands into the audit log, enabled through `OBLBootstrap.auditLog` */
+export class AuditModule extends BotModule {
+    @dependency(CommandDispatcher)
+    dispatcher: CommandDispatcher
+
+    @dependency(AuditLog)
+    auditLog: AuditLog
+
+    onLoad(manager: ServiceManager): void {
+        this.dispatcher.use(this.auditLog)
+        this.dispatcher.register(literal("audit")
+            .description("Searches the recorded command invocations of this server")
+            .asserts(CommandAssertions.DiscordPermissions(PermissionsBitField.Flags.Administrator))
+            .flag(flag("user", Parsers.DiscordUser, undefined, ["u"]).description("Only show commands by this user"))
+            .flag(flag("command", Parsers.String, undefined, ["c"]).description("Only show this command path, without prefix"))
+            .flag(flag("since", Parsers.Date, undefined, ["s"]).description("Only show commands at or after this time"))
+            .flag(flag("until", Parsers.Date, undefined, ["t"]).description("Only show commands at or before this time"))
+            .flag(flag("limit", Parsers.BoundedInteger(1, 1000), 100, ["l"]).description("The maximum amount of entries to show"))
+            .executes(ctx => this.search(ctx))
+        )
+    }
+
+    // Search the audit log with the flags of the given context
+    private async search(ctx: CommandContext<{}, AuditFlags>): Promise<CommandResult> {
+        if (!ctx.guild.isPresent()) {
+            return ctx.fail(ctx.t("audit.guildOnly"))
+        }
+
+        let entries = this.auditLog.query({
+            guildId: ctx.guild.get().id,
+            userId: ctx.flag("user").map(u => u.id).orElse(undefined),
+            command: ctx.flag("command").map(c => c.trim().replace(/\s+/g, " ")).orElse(undefined),
+            since: ctx.flag("since").map(d => d.getTime()).orElse(undefined),
+            until: ctx.flag("until").map(d => d.getTime()).orElse(undefined),
+            limit: ctx.flag("limit").get()
+        })
+
+        if (!entries) {
+            return ctx.fail(ctx.t("audit.unsupported"))
+        }
+
+        let list = await entries
+        if (list.length == 0) {
+            return ctx.fail(ctx.t("audit.none"))
+        }
+
+        return PaginatedResult.fromItems(ctx, list.map(e => this.formatEntry(e)), ENTRIES_PER_PAGE, ctx.t("audit.title"))
+    }
+
+    // Format the given entry as a single line
+    private formatEntry(entry: AuditEntry): string {
+        let args = Object.entries(entry.args).map(e => e[0] + "=" + e[1]).join(" ")
+        return "<t:" + Math.floor(entry.time / 1000) + ":f> " + (entry.success ? "`✅`" : "`❌`") +
+            " <@" + entry.userId + "> `" + entry.command + (args ? " " + truncate(args, 80) : "") + "`" +
+            " (" + entry.duration + "ms" + (entry.success ? "" : ", " + entry.resultType) + ")"
+    }
+}
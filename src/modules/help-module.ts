@@ -0,0 +1,94 @@
+import { EmbedBuilder } from "discord.js";
+import { BotModule, ServiceManager, autoRegister, dependency } from "../services";
+import { CommandContext, CommandDispatcher, CommandNode, CommandResult, Parsers, argument, flag, literal, usage } from "../services/command-service";
+import { PaginatedResult } from "../services/paginated-result";
+import { truncate } from "../util/strings";
+
+/** The amount of commands listed per help page */
+const COMMANDS_PER_PAGE = 10
+
+@autoRegister()
+export class HelpModule extends BotModule {
+    @dependency(CommandDispatcher)
+    dispatcher: CommandDispatcher
+
+    onLoad(manager: ServiceManager): void {
+        this.dispatcher.register(literal("help")
+            .description("Lists all commands or shows the usage of a command")
+            .flag(flag("page", Parsers.Number, 1, ["p"]).description("The page to show"))
+            .executes(ctx => this.listCommands(ctx, ctx.flag("page").get()))
+            .then(argument("command", Parsers.GreedyString)
+                .description("The command path to show the usage of")
+                .executes(ctx => this.showCommand(ctx, ctx.arg("command").get())))
+        )
+    }
+
+    // Render the paginated list of all commands
+    private listCommands(ctx: CommandContext, page: number): CommandResult {
+        let guildId = ctx.guild.map(g => g.id).orElse(undefined)
+        let lines = [...this.dispatcher.commands]
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .map(node => "`" + this.dispatcher.displayPrefix(node, guildId) + node.name + "`" + (node.meta.description ? " - " + node.meta.description : ""))
+
+        return PaginatedResult.fromItems(ctx, lines, COMMANDS_PER_PAGE, ctx.t("help.title")).startAt(page)
+    }
+
+    // Render the detailed usage of the given command path
+    private showCommand(ctx: CommandContext, pathStr: string): CommandResult {
+        let guildId = ctx.guild.map(g => g.id).orElse(undefined)
+        let parts = pathStr.trim().split(/\s+/)
+
+        // find the base command with or without prefix
+        let base = this.dispatcher.commandMap.get(parts[0]) ||
+            this.dispatcher.findByName(parts[0]) ||
+            this.dispatcher.getPrefixes(guildId)
+                .filter(p => parts[0].startsWith(p))
+                .map(p => this.dispatcher.findByName(parts[0].substring(p.length), this.dispatcher.standardPrefix))
+                .find(n => n)
+        if (!base) {
+            return ctx.fail(ctx.t("command.unknown", { name: parts[0] }))
+        }
+
+        // walk the literal children
+        let path: CommandNode[] = [base]
+        for (let part of parts.slice(1)) {
+            let next = path.at(-1).children.find(n => n.literal && (n.name == part || n.aliases.includes(part)))
+            if (!next) {
+                return ctx.fail(ctx.t("command.unknownSubcommand", { name: part }))
+            }
+
+            path.push(next)
+        }
+
+        let prefix = this.dispatcher.displayPrefix(base, guildId)
+        let node = path.at(-1)
+        let embed = new EmbedBuilder()
+            .setTitle(prefix + path.map(n => n.name).join(" "))
+            .setDescription(node.meta.description ? node.meta.description : ctx.t("help.noDescription"))
+
+        if (node.aliases.length > 0) {
+            embed.addFields({ name: ctx.t("help.aliases"), value: node.aliases.map(a => "`" + a + "`").join(", ") })
+        }
+
+        let usageLines = usage(path, prefix)
+        if (usageLines.length > 0) {
+            embed.addFields({ name: ctx.t("help.usage"), value: truncate(usageLines.map(l => "`" + l + "`").join("\n"), 1024) })
+        }
+
+        let flags = [...new Set(path.flatMap(n => n.flags))]
+        if (flags.length > 0) {
+            embed.addFields({ name: ctx.t("help.flags"), value: truncate(flags
+                .map(f => "`-" + [f.name, ...f.aliases].join("`, `-") + "`" + (f.meta.description ? " - " + f.meta.description : ""))
+                .join("\n"), 1024) })
+        }
+
+        let subcommands = node.children.filter(n => n.literal)
+        if (subcommands.length > 0) {
+            embed.addFields({ name: ctx.t("help.subcommands"), value: truncate(subcommands
+                .map(n => "`" + n.name + "`" + (n.meta.description ? " - " + n.meta.description : ""))
+                .join("\n"), 1024) })
+        }
+
+        return ctx.success({ embeds: [embed] })
+    }
+}
@@ -0,0 +1,68 @@
+import { PermissionsBitField } from "discord.js";
+import { BotModule, ServiceManager, autoRegister, dependency } from "../services";
+import { CommandAssertions, CommandContext, CommandDispatcher, CommandResult, Parsers, argument, literal } from "../services/command-service";
+import { Translations } from "../services/i18n-service";
+
+/** The argument resetting a locale setting */
+const RESET = "reset"
+
+@autoRegister()
+export class LocaleModule extends BotModule {
+    @dependency(CommandDispatcher)
+    dispatcher: CommandDispatcher
+
+    @dependency(Translations)
+    translations: Translations
+
+    onLoad(manager: ServiceManager): void {
+        this.dispatcher.register(literal("locale")
+            .description("Shows or changes the language of the command messages")
+            .executes(ctx => this.showLocale(ctx))
+            .then(literal("me")
+                .description("Sets your preferred language, overriding the one of the server")
+                .then(argument("locale", Parsers.String)
+                    .description("The locale like `de` or `en-US`, or `reset`")
+                    .suggests(_ => [...this.translations.locales(), RESET])
+                    .executes(ctx => this.updateLocale(ctx, ctx.arg("locale").get(), locale => this.translations.setUserLocale(ctx.author.id, locale)))))
+            .then(literal("server")
+                .description("Sets the language of this server")
+                .asserts(CommandAssertions.GuildOnly())
+                .asserts(CommandAssertions.DiscordPermissions(PermissionsBitField.Flags.ManageGuild))
+                .then(argument("locale", Parsers.String)
+                    .description("The locale like `de` or `en-US`, or `reset`")
+                    .suggests(_ => [...this.translations.locales(), RESET])
+                    .executes(ctx => this.updateLocale(ctx, ctx.arg("locale").get(), locale => this.translations.setGuildLocale(ctx.guild.get().id, locale)))))
+        )
+    }
+
+    // Render the resolved locale and the available ones
+    private showLocale(ctx: CommandContext): CommandResult {
+        let user = this.translations.userLocales.get(ctx.author.id)
+        let guild = ctx.guild.map(g => this.translations.guildLocales.get(g.id)).orElse(undefined)
+        return ctx.success(ctx.t("locale.current", { locale: ctx.locale }) +
+            (user ? ctx.t("locale.user", { locale: user }) : "") +
+            (guild ? ctx.t("locale.guild", { locale: guild }) : "") +
+            "\n" + ctx.t("locale.available", { locales: this.listLocales() }))
+    }
+
+    // List the available locales
+    private listLocales(): string {
+        return this.translations.locales().map(l => "`" + l + "`").join(", ")
+    }
+
+    // Validate the given locale and apply it with the given function
+    private updateLocale(ctx: CommandContext, input: string, func: (locale: string) => void): CommandResult {
+        if (input.toLowerCase() == RESET) {
+            func(undefined)
+            return this.showLocale(ctx)
+        }
+
+        let locale = this.translations.findLocale(input)
+        if (!locale) {
+            return ctx.fail(ctx.t("locale.unknown", { locale: input, locales: this.listLocales() }))
+        }
+
+        func(locale)
+        return this.showLocale(ctx)
+    }
+}
@@ -0,0 +1,191 @@
+import { ApplicationCommandType, GuildBasedChannel, PermissionsBitField } from "discord.js";
+import { BotModule, ServiceManager, autoRegister, dependency } from "../services";
+import { CommandAssertions, CommandContext, CommandDispatcher, CommandNode, CommandPolicy, CommandResult, FailError, Parsers, argument, contextMenuKey, literal } from "../services/command-service";
+import { MessageParams } from "../services/i18n-service";
+import { PaginatedResult } from "../services/paginated-result";
+
+/** The amount of policies listed per page */
+const POLICIES_PER_PAGE = 10
+
+/** The name of the command managing the policies, it can not be restricted */
+const POLICY_COMMAND = "commands"
+
+@autoRegister()
+export class PolicyModule extends BotModule {
+    @dependency(CommandDispatcher)
+    dispatcher: CommandDispatcher
+
+    onLoad(manager: ServiceManager): void {
+        this.dispatcher.register(literal(POLICY_COMMAND)
+            .description("Shows or changes where commands can be used in this server")
+            .asserts(CommandAssertions.GuildOnly())
+            .asserts(CommandAssertions.DiscordPermissions(PermissionsBitField.Flags.ManageGuild))
+            .executes(ctx => this.listPolicies(ctx))
+            .then(literal("enable")
+                .description("Enables a command in this server or only the given channel")
+                .then(argument("path", Parsers.GreedyString)
+                    .description("The command path, optionally followed by a channel")
+                    .executes(ctx => this.updatePolicy(ctx, ctx.arg("path").get(), (policy, channel) => this.enable(policy, channel)))))
+            .then(literal("disable")
+                .description("Disables a command in this server or only the given channel")
+                .then(argument("path", Parsers.GreedyString)
+                    .description("The command path, optionally followed by a channel")
+                    .executes(ctx => this.updatePolicy(ctx, ctx.arg("path").get(), (policy, channel) => this.disable(policy, channel)))))
+            .then(literal("bypass")
+                .description("Toggles whether a role is exempt from the restrictions of a command")
+                .thenArgument("role", Parsers.DiscordRole, role => role
+                    .thenArgument("path", Parsers.GreedyString, path => path
+                        .description("The command path")
+                        .executes(ctx => this.updatePolicy(ctx, ctx.arg("path").get(), policy => this.toggleBypass(policy, ctx.arg("role").get().id))))))
+            .then(literal("reset")
+                .description("Removes all restrictions of a command")
+                .then(argument("path", Parsers.GreedyString)
+                    .description("The command path")
+                    .executes(ctx => this.resetPolicy(ctx, ctx.arg("path").get()))))
+        )
+    }
+
+    // Resolve the given command path to the canonical literal names
+    private resolvePath(ctx: CommandContext, pathStr: string): string[] {
+        let guildId = ctx.guild.get().id
+        let parts = pathStr.trim().split(/\s+/)
+
+        // context menu commands are matched by their whole name
+        let menu = [ApplicationCommandType.User, ApplicationCommandType.Message]
+            .map(t => this.dispatcher.contextMenus.get(contextMenuKey(t, pathStr.trim())))
+            .find(n => n)
+        if (menu) {
+            return [menu.name]
+        }
+
+        // find the base command with or without prefix
+        let base = this.dispatcher.findByName(parts[0]) ||
+            this.dispatcher.commandMap.get(parts[0]) ||
+            this.dispatcher.getPrefixes(guildId)
+                .filter(p => parts[0].startsWith(p))
+                .map(p => this.dispatcher.findByName(parts[0].substring(p.length), this.dispatcher.standardPrefix))
+                .find(n => n)
+        if (!base) {
+            throw new FailError(ctx.t("command.unknown", { name: parts[0] }))
+        }
+
+        // walk the literal children
+        let path: CommandNode[] = [base]
+        for (let part of parts.slice(1)) {
+            let next = path.at(-1).children.find(n => n.literal && (n.name == part || n.aliases.includes(part)))
+            if (!next) {
+                throw new FailError(ctx.t("command.unknownSubcommand", { name: part }))
+            }
+
+            path.push(next)
+        }
+
+        return path.map(n => n.name)
+    }
+
+    // Split a trailing channel off the given path
+    private splitChannel(ctx: CommandContext, pathStr: string): [string, GuildBasedChannel] {
+        let parts = pathStr.trim().split(/\s+/)
+        let match = parts.length > 1 ? parts.at(-1).match(/^(?:<#(\d+)>|(\d+))$/) : undefined
+        if (!match) {
+            return [pathStr, undefined]
+        }
+
+        let channel = ctx.guild.get().channels.cache.get(match[1] || match[2])
+        if (!channel) {
+            throw new FailError(ctx.t("policy.unknownChannel", { id: match[1] || match[2] }))
+        }
+
+        return [parts.slice(0, -1).join(" "), channel]
+    }
+
+    // Apply the given change to the policy of the given path, it returns the message key and parameters
+    private updatePolicy(ctx: CommandContext, pathStr: string, func: (policy: CommandPolicy, channel: GuildBasedChannel) => [string, MessageParams]): CommandResult {
+        let guildId = ctx.guild.get().id
+        let [rest, channel] = this.splitChannel(ctx, pathStr)
+        let path = this.resolvePath(ctx, rest).join(" ")
+        if (path.split(" ")[0] == POLICY_COMMAND) {
+            return ctx.fail(ctx.t("policy.notRestrictable", { command: POLICY_COMMAND }))
+        }
+
+        let [key, params] = func(this.dispatcher.guildPolicies.getOrCreate(guildId, path), channel)
+        this.dispatcher.guildPolicies.clean(guildId, path)
+
+        return ctx.success(ctx.t(key, { ...params, path: path }))
+    }
+
+    // Enable the policy everywhere or in the given channel
+    private enable(policy: CommandPolicy, channel: GuildBasedChannel): [string, MessageParams] {
+        if (!channel) {
+            policy.disabled = false
+            policy.allowedChannels = []
+            policy.deniedChannels = []
+            return ["policy.enabledEverywhere", { }]
+        }
+
+        policy.deniedChannels = policy.deniedChannels.filter(c => c != channel.id)
+        if (policy.disabled || policy.allowedChannels.length > 0) {
+            // only allow the listed channels
+            policy.disabled = false
+            if (!policy.allowedChannels.includes(channel.id)) policy.allowedChannels.push(channel.id)
+            return ["policy.enabledIn", { channels: policy.allowedChannels.map(c => "<#" + c + ">").join(", ") }]
+        }
+
+        return ["policy.enabledIn", { channels: channel.toString() }]
+    }
+
+    // Disable the policy everywhere or in the given channel
+    private disable(policy: CommandPolicy, channel: GuildBasedChannel): [string, MessageParams] {
+        if (!channel) {
+            policy.disabled = true
+            return ["policy.disabledEverywhere", { }]
+        }
+
+        if (policy.allowedChannels.length > 0) {
+            policy.allowedChannels = policy.allowedChannels.filter(c => c != channel.id)
+            if (policy.allowedChannels.length == 0) policy.disabled = true
+        } else if (!policy.deniedChannels.includes(channel.id)) {
+            policy.deniedChannels.push(channel.id)
+        }
+
+        return ["policy.disabledIn", { channels: channel.toString() }]
+    }
+
+    // Toggle whether the given role bypasses the policy
+    private toggleBypass(policy: CommandPolicy, roleId: string): [string, MessageParams] {
+        if (policy.bypassRoles.includes(roleId)) {
+            policy.bypassRoles = policy.bypassRoles.filter(r => r != roleId)
+            return ["policy.bypassRemoved", { role: "<@&" + roleId + ">" }]
+        }
+
+        policy.bypassRoles.push(roleId)
+        return ["policy.bypassAdded", { role: "<@&" + roleId + ">" }]
+    }
+
+    // Remove all restrictions of the given path
+    private resetPolicy(ctx: CommandContext, pathStr: string): CommandResult {
+        let path = this.resolvePath(ctx, pathStr).join(" ")
+        this.dispatcher.guildPolicies.clean(ctx.guild.get().id, path, true)
+        return ctx.success(ctx.t("policy.reset", { path: path }))
+    }
+
+    // Render the policies of the current guild
+    private listPolicies(ctx: CommandContext): CommandResult {
+        let policies = [...this.dispatcher.guildPolicies.all(ctx.guild.get().id)]
+            .sort((a, b) => a[0].localeCompare(b[0]))
+        if (policies.length == 0) {
+            return ctx.success(ctx.t("policy.none"))
+        }
+
+        let lines = policies.map(([path, policy]) => {
+            let state = policy.disabled ? ctx.t("policy.stateDisabled") :
+                policy.allowedChannels.length > 0 ? ctx.t("policy.stateOnlyIn", { channels: policy.allowedChannels.map(c => "<#" + c + ">").join(", ") }) :
+                policy.deniedChannels.length > 0 ? ctx.t("policy.stateNotIn", { channels: policy.deniedChannels.map(c => "<#" + c + ">").join(", ") }) :
+                ctx.t("policy.stateUnrestricted")
+            let bypass = policy.bypassRoles.length > 0 ? ctx.t("policy.bypassedBy", { roles: policy.bypassRoles.map(r => "<@&" + r + ">").join(", ") }) : ""
+            return "`" + path + "` - " + state + bypass
+        })
+
+        return PaginatedResult.fromItems(ctx, lines, POLICIES_PER_PAGE, ctx.t("policy.title"))
+    }
+}
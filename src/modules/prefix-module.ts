@@ -0,0 +1,60 @@
+import { PermissionsBitField } from "discord.js";
+import { BotModule, ServiceManager, autoRegister, dependency } from "../services";
+import { CommandAssertions, CommandContext, CommandDispatcher, CommandResult, Parsers, argument, literal } from "../services/command-service";
+
+@autoRegister()
+export class PrefixModule extends BotModule {
+    @dependency(CommandDispatcher)
+    dispatcher: CommandDispatcher
+
+    onLoad(manager: ServiceManager): void {
+        const manageGuild = CommandAssertions.DiscordPermissions(PermissionsBitField.Flags.ManageGuild)
+
+        this.dispatcher.register(literal("prefix")
+            .description("Shows or changes the command prefixes of this server")
+            .executes(ctx => this.showPrefixes(ctx))
+            .then(literal("set")
+                .description("Replaces the prefixes of this server")
+                .asserts(manageGuild)
+                .then(argument("prefix", Parsers.String)
+                    .executes(ctx => this.updatePrefixes(ctx, _ => [ctx.arg("prefix").get()]))))
+            .then(literal("add")
+                .description("Adds a prefix to this server")
+                .asserts(manageGuild)
+                .then(argument("prefix", Parsers.String)
+                    .executes(ctx => this.updatePrefixes(ctx, list => [...list, ctx.arg("prefix").get()]))))
+            .then(literal("remove")
+                .description("Removes a prefix from this server")
+                .asserts(manageGuild)
+                .then(argument("prefix", Parsers.String)
+                    .executes(ctx => this.updatePrefixes(ctx, list => list.filter(p => p != ctx.arg("prefix").get())))))
+            .then(literal("reset")
+                .description("Resets the prefixes of this server to the default")
+                .asserts(manageGuild)
+                .executes(ctx => this.updatePrefixes(ctx, _ => [])))
+        )
+    }
+
+    // Render the prefixes of the current guild
+    private showPrefixes(ctx: CommandContext): CommandResult {
+        let guildId = ctx.guild.map(g => g.id).orElse(undefined)
+        let prefixes = this.dispatcher.getPrefixes(guildId)
+        return ctx.success(ctx.t("prefix.list", { prefixes: prefixes.map(p => "`" + p + "`").join(", ") }))
+    }
+
+    // Update the prefixes of the current guild with the given function
+    private updatePrefixes(ctx: CommandContext, func: (list: string[]) => string[]): CommandResult {
+        if (!ctx.guild.isPresent()) {
+            return ctx.fail(ctx.t("prefix.guildOnly"))
+        }
+
+        let guildId = ctx.guild.get().id
+        let prefixes = func(this.dispatcher.getPrefixes(guildId))
+        if (prefixes.some(p => p.length == 0 || /\s/.test(p))) {
+            return ctx.fail(ctx.t("prefix.invalid"))
+        }
+
+        this.dispatcher.guildPrefixes.set(guildId, prefixes)
+        return this.showPrefixes(ctx)
+    }
+}
@@ -0,0 +1,295 @@
+import { Client, EmbedBuilder } from "discord.js";
+import { BotService, DependencyType, ServiceManager, providedBy, provides } from "../services";
+import { CommandContext, CommandMiddleware, CommandResult, FailResult, UncaughtErrorResult } from "./command-service";
+import { Table } from "./db-service";
+import { DATA_DIRECTORY } from "../util/paths";
+import { truncate } from "../util/strings";
+import { Logger } from "../util/logging";
+import { createReadStream, promises as fsp } from "fs";
+import readline from "readline";
+import path from "path";
+
+/** A single recorded command invocation */
+export type AuditEntry = {
+    time: number                 // The time the command was invoked in epoch milliseconds
+    userId: string               // The ID of the invoking user
+    username: string             // The name of the invoking user
+    guildId: string              // The ID of the guild, undefined outside guilds
+    channelId: string            // The ID of the channel
+    command: string              // The full command path including the prefix
+    path: string                 // The command path without the prefix
+    args: Record<string, string> // The parsed arguments and flags as text
+    success: boolean             // Whether the command succeeded
+    resultType: string           // The type of the result, like `FailResult`
+    error: string                // The error message if the command failed
+    duration: number             // The time in milliseconds until the result was ready
+}
+
+/** Filters audit entries, all fields are optional */
+export type AuditQuery = {
+    guildId?: string // Only entries from this guild
+    userId?: string  // Only entries from this user
+    command?: string // Only entries whose command path starts with this, without prefix
+    since?: number   // Only entries at or after this time in epoch milliseconds
+    until?: number   // Only entries at or before this time in epoch milliseconds
+    limit?: number   // The maximum amount of entries, newest first
+}
+
+/** Stores audit entries, sinks without a query method can only record */
+export interface AuditSink {
+    record(entry: AuditEntry): void | Promise<void>
+    query?(query: AuditQuery): Promise<AuditEntry[]>
+}
+
+/** Check whether the given entry matches the given query */
+export function matchesAuditQuery(entry: AuditEntry, query: AuditQuery): boolean {
+    return (!query.guildId || entry.guildId == query.guildId) &&
+        (!query.userId || entry.userId == query.userId) &&
+        (!query.command || entry.path == query.command || entry.path.startsWith(query.command + " ")) &&
+        (query.since == undefined || entry.time >= query.since) &&
+        (query.until == undefined || entry.time <= query.until)
+}
+
+/** The default size in bytes after which audit files are rotated */
+const DEFAULT_AUDIT_FILE_SIZE = 8 * 1024 * 1024
+
+/**
+ * Creates a sink appending entries as JSON lines to the given data file, once it
+ * would exceed the given size it is rotated to `name.1.jsonl` and so on, keeping
+ * the given amount of rotated files. Queries stream through the files.
+ */
+export function fileAuditSink(fn: string, maxSize: number = DEFAULT_AUDIT_FILE_SIZE, keep: number = 1): AuditSink {
+    const filePath = path.join(DATA_DIRECTORY, fn)
+    const ext = path.extname(filePath)
+    const rotated = (i: number) => i == 0 ? filePath : filePath.substring(0, filePath.length - ext.length) + "." + i + ext
+    return new class implements AuditSink {
+        size: number = 0 // The size of the current file in bytes
+
+        // the appends in order, so lines are
+        // written in the order they were recorded
+        pending: Promise<void> = fsp.mkdir(path.dirname(filePath), { recursive: true })
+            .then(_ => fsp.stat(filePath))
+            .then(stat => { this.size = stat.size }, _ => { })
+
+        record(entry: AuditEntry) {
+            let line = JSON.stringify(entry) + "\n"
+            let length = Buffer.byteLength(line)
+            return this.pending = this.pending.catch(_ => { })
+                .then(_ => this.size > 0 && this.size + length > maxSize ? this.rotate() : undefined)
+                .then(_ => fsp.appendFile(filePath, line))
+                .then(_ => { this.size += length })
+        }
+
+        // Shift all files by one, dropping the oldest
+        async rotate() {
+            if (keep == 0) await fsp.rm(filePath, { force: true })
+            for (let i = keep; i > 0; i--) {
+                await fsp.rename(rotated(i - 1), rotated(i)).catch(e => { if (e.code != 'ENOENT') throw e })
+            }
+
+            this.size = 0
+        }
+
+        async query(query: AuditQuery): Promise<AuditEntry[]> {
+            await this.pending.catch(_ => { })
+
+            // stream from the oldest file on, only
+            // keeping the newest matching entries
+            let entries: AuditEntry[] = []
+            for (let i = keep; i >= 0; i--) {
+                try {
+                    let lines = readline.createInterface({ input: createReadStream(rotated(i)), crlfDelay: Infinity })
+                    for await (let line of lines) {
+                        if (line.trim().length == 0)
+                            continue
+                        let entry = JSON.parse(line) as AuditEntry
+                        if (!matchesAuditQuery(entry, query))
+                            continue
+                        entries.push(entry)
+                        if (query.limit && entries.length > query.limit) entries.shift()
+                    }
+                } catch (e) {
+                    if (e.code != 'ENOENT') throw e
+                }
+            }
+
+            return entries.reverse()
+        }
+    }
+}
+
+// The database filter for audit queries
+type AuditFilter = {
+    guildId?: string                        // The exact guild ID
+    userId?: string                         // The exact user ID
+    time?: { $gte?: number, $lte?: number } // The inclusive range of the time
+}
+
+/** Creates a sink inserting entries into the given database table */
+export function databaseAuditSink(table: Table<AuditEntry>): AuditSink {
+    return new class implements AuditSink {
+        record(entry: AuditEntry) {
+            return table.insert(entry).then(_ => { })
+        }
+
+        query(query: AuditQuery): Promise<AuditEntry[]> {
+            // filter what the database can filter and
+            // match the command paths afterwards
+            let filter: AuditFilter = { }
+            if (query.guildId) filter.guildId = query.guildId
+            if (query.userId) filter.userId = query.userId
+            if (query.since != undefined || query.until != undefined) {
+                filter.time = { }
+                if (query.since != undefined) filter.time.$gte = query.since
+                if (query.until != undefined) filter.time.$lte = query.until
+            }
+
+            return table.findMany(filter, { sort: { time: -1 }, limit: query.command ? undefined : query.limit })
+                .then(list => list.filter(e => matchesAuditQuery(e, query)))
+                .then(list => query.limit ? list.slice(0, query.limit) : list)
+        }
+    }
+}
+
+/** Creates a sink posting entries to the given Discord channel, it can not be queried */
+export function channelAuditSink(client: Client, channelId: string): AuditSink {
+    return new class implements AuditSink {
+        async record(entry: AuditEntry) {
+            let channel = await client.channels.fetch(channelId)
+            if (!channel || !channel.isTextBased())
+                throw new Error("Audit channel " + channelId + " is not a text channel")
+
+            let args = Object.entries(entry.args).map(e => e[0] + ": `" + truncate(e[1], 100) + "`").join("\n")
+            let embed = new EmbedBuilder()
+                .setColor(entry.success ? "#16c60c" : "#d93415")
+                .setDescription("<@" + entry.userId + "> ran `" + entry.command + "` in <#" + entry.channelId + ">")
+                .setFooter({ text: entry.resultType + " in " + entry.duration + "ms" })
+                .setTimestamp(entry.time)
+            if (args) embed.addFields({ name: "Arguments", value: truncate(args, 1024) })
+            if (entry.error) embed.addFields({ name: "Error", value: truncate(entry.error, 1024) })
+
+            await channel.send({ embeds: [embed] })
+        }
+    }
+}
+
+// Get the message shown for the given failed result
+function failureMessage(result: CommandResult): string {
+    if (result instanceof FailResult || result instanceof UncaughtErrorResult)
+        return result.message
+    return result.errorMessage
+}
+
+// Convert the given parsed value to text for the audit log
+function auditValue(value: any, emit: (v: any) => string): string {
+    if (Array.isArray(value))
+        return value.map(v => auditValue(v, emit)).join(" ")
+    // discord entities stringify to their mentions
+    if (value && typeof value == 'object' && !(value instanceof Date) && value.toString !== Object.prototype.toString)
+        return String(value)
+    try {
+        return emit ? emit(value) : String(value)
+    } catch (e) {
+        return String(value)
+    }
+}
+
+/** Records all command invocations of the dispatchers it is used on into its sinks */
+@providedBy("AuditService", DependencyType.SERVICE)
+export class AuditLog implements CommandMiddleware {
+    sinks: AuditSink[] = []                                     // The sinks to record entries into
+    startTimes: WeakMap<CommandContext, number> = new WeakMap() // The dispatch start time by context
+
+    /** Add the given sink */
+    public use(sink: AuditSink): this {
+        this.sinks.push(sink)
+        return this
+    }
+
+    /** Create the entry for the given finished invocation */
+    public entryFor(ctx: CommandContext, result: CommandResult, duration: number): AuditEntry {
+        let args: Record<string, string> = { }
+        ctx.argResults.forEach((r, name) => {
+            let node = ctx.registeredArgs.get(name)
+            if (r.value !== undefined) args[name] = auditValue(r.value, node && node.argumentType ? v => node.argumentType.emit(v) : undefined)
+        })
+
+        ctx.flagResults.forEach((r, name) => {
+            let flag = ctx.registeredFlags.get(name)
+            if (r.value !== undefined) args["-" + name] = auditValue(r.value, flag && flag.type ? v => flag.type.emit(v) : undefined)
+        })
+
+        let path = ctx.nodeStack.filter(n => n.literal).map(n => n.name)
+        return {
+            time: Date.now() - duration,
+            userId: ctx.author.id,
+            username: ctx.author.username,
+            guildId: ctx.guild.map(g => g.id).orElse(undefined),
+            channelId: ctx.channel ? ctx.channel.id : undefined,
+            command: (ctx.interaction ? "/" : ctx.prefix) + path.join(" "),
+            path: path.join(" "),
+            args: args,
+            success: result.success,
+            resultType: result.constructor.name,
+            error: result.success ? undefined : failureMessage(result),
+            duration: duration
+        }
+    }
+
+    /** Record the given entry into all sinks */
+    public record(entry: AuditEntry) {
+        for (let sink of this.sinks) {
+            Promise.resolve()
+                .then(_ => sink.record(entry))
+                .catch(e => logger.error("Failed to record audit entry: {0}", e))
+        }
+    }
+
+    /** Query the first sink supporting queries, undefined if none does */
+    public query(query: AuditQuery): Promise<AuditEntry[]> {
+        let sink = this.sinks.find(s => s.query)
+        return sink ? sink.query(query) : undefined
+    }
+
+    beforeParse(ctx: CommandContext) {
+        this.startTimes.set(ctx, Date.now())
+    }
+
+    afterResult(ctx: CommandContext, result: CommandResult) {
+        // only record resolved commands
+        if (!ctx.command || !ctx.author)
+            return
+
+        let start = this.startTimes.get(ctx)
+        this.record(this.entryFor(ctx, result, start ? Date.now() - start : 0))
+    }
+}
+
+/* ----------------------------------------------- */
+
+let logger: Logger
+
+/**
+ * Records all command invocations into the given sinks, a rotated data file
+ * if none are given. It is not registered automatically, enable it together
+ * with the `audit` command through `OBLBootstrap.auditLog`.
+ */
+export class AuditService extends BotService {
+    // The global audit log
+    @provides(AuditLog)
+    auditLog: AuditLog
+
+    private sinks: AuditSink[] // The sinks to record into
+
+    constructor(...sinks: AuditSink[]) {
+        super()
+        logger = this.logger
+        this.sinks = sinks
+    }
+
+    onLoad(manager: ServiceManager): void {
+        this.auditLog = new AuditLog()
+        let sinks = this.sinks.length > 0 ? this.sinks : [fileAuditSink("audit-service/commands.jsonl")]
+        sinks.forEach(s => this.auditLog.use(s))
+    }
+}
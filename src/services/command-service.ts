@@ -1,10 +1,12 @@
-import { BaseMessageOptions, Client, EmbedBuilder, Events, GatewayIntentBits, Guild, GuildChannel, GuildMember, Message, MessageCreateOptions, MessagePayload, MessageReplyOptions, PermissionResolvable, PermissionsBitField, TextBasedChannel, TextChannel, User } from "discord.js";
-import { BotService, DependencyType, ServiceManager, autoRegister, dependency, discordEventHandler, providedBy, provides } from "../services";
-import { Parser, StringReader, Parsers as ParsersBase, stringify, StringLoc, ParseError, EOS, ParseContext, epochTimeToSMS, UNTIL_NEWLN, StringBuilder, ParseResult, newSyncParser, newAsyncParser } from "../util/strings";
+import { ApplicationCommandDataResolvable, AutocompleteInteraction, ApplicationCommandOptionData, ApplicationCommandOptionType, ApplicationCommandType, BaseMessageOptions, ButtonInteraction, ButtonStyle, ChannelType, ChatInputCommandInteraction, Client, Colors, CommandInteraction, ComponentType, ContextMenuCommandInteraction, EmbedBuilder, Events, GatewayIntentBits, Guild, GuildBasedChannel, GuildChannel, GuildMember, Interaction, Message, MessageCreateOptions, MessagePayload, ModalSubmitInteraction, PartialMessage, MessageReplyOptions, PermissionResolvable, PermissionsBitField, Role, TextBasedChannel, TextChannel, TextInputStyle, User } from "discord.js";
+import { BotService, DependencyType, InjectStage, ServiceManager, autoRegister, dependency, discordEventHandler, eventHandler, providedBy, provides } from "../services";
+import { Parser, StringReader, Parsers as ParsersBase, stringify, StringLoc, ParseError, EOS, ParseContext, epochTimeToSMS, UNTIL_NEWLN, UNTIL_WHITESPACE, StringBuilder, ParseResult, newSyncParser, newAsyncParser, truncate, withSuggestions, matchSuggestions, closestMatches, isBase10Digit, isCharWhitespace, quoteString } from "../util/strings";
 import { Optional } from "../util/optional";
-import { Logger } from "util/logging";
+import { Logger } from "../util/logging";
 import { PermissionManager, Permit } from "./permission-service";
 import { completedPromise } from "../util/future";
+import { DataIO, fileJsonIO } from "../util/io";
+import { MessageParams, Translations } from "./i18n-service";
 
 /** Options for sending the result message */
 export type ResultMessageOptions = { noReply?: boolean, editMessage?: string | Message, deleteUsage?: boolean, deleteAfter?: number }
@@ -43,6 +45,9 @@ export abstract class CommandResult {
         return [this]
     }
 
+    /** Release anything still attached to the sent message, called when it is replaced */
+    public dispose() { }
+
     /** Trace all errors */
     public traceErrors() {
         logger.error("Error occurred while executing command {0}: {1}",
@@ -50,37 +55,54 @@ export abstract class CommandResult {
                 this.ctx.command.prefix + this.ctx.command.name, ...this.errors)
     }
 
-    /** Handle this result the default way */
-    public handleDefault() {
+    /** Handle this result the default way, resolves to the sent message if any */
+    public handleDefault(): Promise<Message> {
         // send result message
         let payload = this.buildMessage()
+        let interaction: CommandInteraction | ModalSubmitInteraction = this.ctx.modalSubmit || this.ctx.interaction
+        let sent: Promise<Message> = completedPromise(undefined)
         if (payload) {
             let edit = this.msgOptions.editMessage
-            new Promise<Message>(resolve => {
+            sent = new Promise<Message>(resolve => {
                 let msg: string | Message = this.msgOptions.editMessage
                 if (edit && msg) {
                     if (typeof msg == 'string')
                         msg = this.ctx.channel.messages.cache.get(msg)
-                    resolve(msg.edit(payload))
+                    resolve(msg.edit({ content: null, embeds: [], components: [], ...payload }))
+                } else if (interaction && this.ctx.promptSubmit && !this.ctx.modalSubmit) {
+                    // the interaction was responded to with
+                    // a prompt modal, no reply to edit
+                    resolve(interaction.followUp({ ...payload, fetchReply: true }))
+                } else if (interaction) {
+                    // respond to the interaction
+                    resolve(interaction.deferred || interaction.replied ?
+                        interaction.editReply({ content: null, embeds: [], components: [], ...payload }) :
+                        interaction.reply({ ...payload, fetchReply: true }))
                 } else if (this.msgOptions.noReply) {
                     resolve(this.ctx.channel.send(payload))
                 } else {
                     resolve(this.ctx.message.reply(payload))
                 }
-            }).then(msg => {
+            })
+
+            sent.then(msg => {
                 // delete messages
                 if (this.msgOptions.deleteAfter) {
                     setTimeout(() => {
-                        if (this.msgOptions.deleteUsage)
-                            this.ctx.message.delete()
-                        msg.delete()
+                        if (this.msgOptions.deleteUsage && this.ctx.message)
+                            this.ctx.message.delete().catch(e => logger.error("Failed to delete the command message: {0}", e))
+                        msg.delete().catch(e => logger.error("Failed to delete the result message: {0}", e))
                     }, this.msgOptions.deleteAfter)
                 }
-            })
+            }).catch(e => logger.error("Failed to send the result message: {0}", e))
+        } else if (interaction && interaction.deferred && !interaction.replied) {
+            // remove the pending response
+            interaction.deleteReply().catch(e => logger.error("Failed to delete the pending response: {0}", e))
         }
 
         // trace errors if needed
         this.unwrap().forEach(r => r.trace ? r.traceErrors() : { })
+        return sent
     }
 }
 
@@ -175,15 +197,39 @@ export abstract class FailLikeResult extends CommandResult {
     }
 }
 
+/** The custom id prefix of the buttons rerunning a corrected command */
+export const RERUN_BUTTON_PREFIX = "command-rerun:"
+
 /** Signals something went wrong but not uncaught */
 export class FailResult extends FailLikeResult {
-    message: string // The error message
+    message: string            // The error message
+    suggestions: string[] = [] // The "did you mean" suggestions to display
+    usageLines: string[] = []  // The usage hints to display
+    corrections: string[] = [] // The corrected inputs to offer rerun buttons for
 
     constructor(ctx: CommandContext, message: string) {
         super(ctx)
         this.message = message
     }
 
+    /** Add the given suggestions to display */
+    public suggest(...suggestions: string[]): this {
+        this.suggestions.push(...suggestions)
+        return this
+    }
+
+    /** Add the given usage hints to display */
+    public usage(...lines: string[]): this {
+        this.usageLines.push(...lines)
+        return this
+    }
+
+    /** Add the given corrected inputs to offer rerun buttons for */
+    public correct(...inputs: string[]): this {
+        this.corrections.push(...inputs)
+        return this
+    }
+
     get errors(): Error[] {
         return []
     }
@@ -205,8 +251,39 @@ export class FailResult extends FailLikeResult {
             desc += '\n' + split[1]
         }
 
+        if (this.suggestions.length > 0) {
+            desc += "\n" + this.ctx.t("result.didYouMean", { suggestions: this.suggestions.slice(0, 5).map(s => "`" + s + "`").join(", ") })
+        }
+
+        if (this.usageLines.length > 0) {
+            desc += "\n" + this.ctx.t("result.usage", { usage: this.usageLines.slice(0, 5).map(s => "`" + s + "`").join("\n") })
+        }
+
         return desc
     }
+
+    buildMessage(): MessageCreateOptions {
+        let payload = super.buildMessage()
+        if (this.corrections.length == 0 || !this.ctx.author)
+            return payload
+
+        // add the rerun buttons, the custom id
+        // is limited to 100 characters
+        let buttons = this.corrections
+            .filter(input => (RERUN_BUTTON_PREFIX + this.ctx.author.id + ":" + input).length <= 100)
+            .slice(0, 5)
+            .map(input => ({
+                type: ComponentType.Button as const,
+                customId: RERUN_BUTTON_PREFIX + this.ctx.author.id + ":" + input,
+                label: truncate(input, 80),
+                style: ButtonStyle.Secondary as const
+            }))
+        if (buttons.length > 0) {
+            payload.components = [{ type: ComponentType.ActionRow, components: buttons }]
+        }
+
+        return payload
+    }
 }
 
 export function failed(ctx: CommandContext, msg: string): FailResult {
@@ -223,10 +300,30 @@ export class AssertionFailedResult extends FailResult {
     }
 }
 
+/** Signals that a cooldown is still active */
+export class CooldownResult extends AssertionFailedResult {
+    remaining: number // The remaining cooldown time in milliseconds
+
+    constructor(ctx: CommandContext, msg: string, assertion: CommandAssertion, remaining: number) {
+        super(ctx, msg, assertion)
+        this.remaining = remaining
+    }
+}
+
+/** Signals that no execution slot of a lock was free */
+export class ConcurrencyResult extends FailResult {
+    lock: CommandLock // The lock which had no free slot
+
+    constructor(ctx: CommandContext, msg: string, lock: CommandLock) {
+        super(ctx, msg)
+        this.lock = lock
+    }
+}
+
 /** Signals parsing errors */
 export class ParseErrorsResult extends FailResult {
     constructor(ctx: CommandContext, error: ParseError) {
-        super(ctx, "Parse Error: " + error.message)
+        super(ctx, ctx.t("result.parseError", { error: ctx.errorText(error) + (error.loc ? " @ " + stringify(error.loc) : "") }))
         this.error = error
     }
 
@@ -239,7 +336,7 @@ export class ParseErrorsResult extends FailResult {
 
 export class MutliFailResult extends FailResult {
     constructor(ctx: CommandContext, results: FailLikeResult[]) {
-        super(ctx, 'Multiple Errors Occurred')
+        super(ctx, ctx.t("result.multipleErrorsOccurred"))
         this._results = results
         results.filter(r => r.errors && r.errors.length > 0).forEach(r => this.errors.push(...r.errors))
     }
@@ -261,7 +358,7 @@ export class MutliFailResult extends FailResult {
 
     buildDesc(): string {
         if (this._results.length != 1) {
-            return '**`❌ Multiple Errors`**\n' + this._results
+            return '**`❌ ' + this.ctx.t("result.multipleErrors") + '`**\n' + this._results
                 .map(r => r.buildDesc())
                 .join('\n')
         } else {
@@ -321,8 +418,8 @@ export enum CommandErrorType {
     ASSERT_FAIL  = "ASSERT_FAIL"   // Assertion/predicate failed
 }
 
-function commandArgumentRequiredOptional<T>(o: Optional<T>, name: string): Optional<T> {
-    o.createAbsentValueError = () => new FailError("`" + name + "` is a required argument")
+function commandArgumentRequiredOptional<T>(ctx: CommandContext, o: Optional<T>, name: string): Optional<T> {
+    o.createAbsentValueError = () => new FailError(ctx.t("argument.required", { name: name }))
     return o
 }
 
@@ -359,14 +456,15 @@ export class CommandError extends Error {
 
 export type MultiParseResult = { context: CommandContext, result: CommandResult }
 
-/** The command execution context */
-export class CommandContext extends ParseContext {
+/** The context of a command, the argument and flag types are known when built with typed builders */
+export class CommandContext<A extends object = {}, F extends object = {}> extends ParseContext {
     constructor() {
         super()
         this.nodeStack = []
     }
 
     reader: StringReader                                   // The command string reader
+    prefix: string                                         // The prefix the command was invoked with
     command: CommandNode                                   // The base command node
     nodeStack: CommandNode[]                               // The node traversal stack, top is current node
     promise: Promise<CommandResult>                        // The command result promise               
@@ -375,16 +473,26 @@ export class CommandContext extends ParseContext {
     registeredArgs: Map<string, CommandNode> = new Map()   // All registered arguments
 
     flagResults: Map<string, ParseResult<any>> = new Map() // The parsed/queried flag values
+    flagsEnded: boolean = false                            // Whether flag parsing was ended by `--`
     argResults: Map<string, ParseResult<any>> = new Map()  // The parsed/queried argument values
     awaitableResults: Promise<ParseResult<any>>[] = []     // The list of awaitable promises
 
     client: Client                                         // The Discord client
-    message: Message                                       // The Discord message
+    message: Message                                       // The Discord message, absent for interactions
+    interaction: CommandInteraction                        // The Discord interaction if invoked as an application command
+    modalSubmit: ModalSubmitInteraction                    // The submitted argument prompt modal, responded to instead of the interaction
+    promptSubmit: Promise<ModalSubmitInteraction>          // The submission of the prompt modal shown as response to the interaction, undefined on timeout
     guild: Optional<Guild>                                 // The Discord guild if present
     author: User                                           // The Discord author of the message
     member: Optional<GuildMember>                          // The Discord author as a member of the guild
     channel: TextBasedChannel                              // The Discord channel the message was sent in
 
+    targetUser: User                                       // The user a user context menu command was invoked on
+    targetMember: Optional<GuildMember>                    // The target user as a member of the guild
+    targetMessage: Message                                 // The message a message context menu command was invoked on
+    interactionLocale: string                              // The client locale of the invoking user, absent for messages
+    aliasStack: string[] = []                              // The names of the aliases expanded to get to this command
+
     setMessage(message: Message) {
         this.client = message.client
 
@@ -396,8 +504,33 @@ export class CommandContext extends ParseContext {
         this.member = Optional.define(message.member)
     }
 
+    setInteraction(interaction: CommandInteraction | AutocompleteInteraction | ButtonInteraction) {
+        this.client = interaction.client
+
+        this.interaction = interaction.isCommand() ? interaction : undefined
+        this.interactionLocale = interaction.locale
+        this.author = interaction.user
+        this.channel = interaction.channel
+
+        this.guild = Optional.define(interaction.guild)
+        this.member = Optional.define(interaction.member instanceof GuildMember ? 
+            interaction.member : 
+            interaction.guild?.members.cache.get(interaction.user.id))
+
+        // set the context menu targets
+        if (interaction.isUserContextMenuCommand()) {
+            this.targetUser = interaction.targetUser
+            this.targetMember = Optional.define(interaction.targetMember instanceof GuildMember ?
+                interaction.targetMember :
+                interaction.guild?.members.cache.get(interaction.targetId))
+        } else if (interaction.isMessageContextMenuCommand()) {
+            this.targetMessage = interaction.targetMessage
+        }
+    }
+
     /** Get the value of the argument or the default set */
-    arg<T>(name: string): Optional<T> {
+    arg<T = never, K extends keyof A & string = keyof A & string>(name: K): Optional<[T] extends [never] ? A[K] : T>
+    arg(name: string): Optional<any> {
         // check for set value
         let value = this.argResults.get(name)
         if (value != undefined) {
@@ -407,20 +540,21 @@ export class CommandContext extends ParseContext {
         let arg = this.registeredArgs.get(name)
         if (!arg) {
             // argument does not exist
-            return commandArgumentRequiredOptional(Optional.empty(), name)
+            return commandArgumentRequiredOptional(this, Optional.empty(), name)
         }
         
         // if possible,
         // get and cache default value
         // then return it
         if (arg.defaultSupplier == undefined || !arg.defaultSupplier)
-            return commandArgumentRequiredOptional(Optional.empty(), name)
+            return commandArgumentRequiredOptional(this, Optional.empty(), name)
         this.argResults.set(name, value = this.completedParse(arg.defaultSupplier(this)))
         return Optional.present(value.value)
     }
 
     /** Get the value of the flag or the default set */
-    flag<T>(name: string): Optional<T> {
+    flag<T = never, K extends keyof F & string = keyof F & string>(name: K): Optional<[T] extends [never] ? F[K] : T>
+    flag(name: string): Optional<any> {
         // check for set value
         let value = this.flagResults.get(name)
         if (value != undefined) {
@@ -430,14 +564,14 @@ export class CommandContext extends ParseContext {
         let flag = this.registeredFlags.get(name)
         if (!flag) {
             // argument does not exist
-            return commandArgumentRequiredOptional(Optional.empty(), name)
+            return commandArgumentRequiredOptional(this, Optional.empty(), name)
         }
         
         // if possible,
         // get and cache default value
         // then return it
         if (flag.defaultSupplier == undefined || !flag.defaultSupplier)
-            return commandArgumentRequiredOptional(Optional.empty(), name)
+            return commandArgumentRequiredOptional(this, Optional.empty(), name)
         this.flagResults.set(name, value = this.completedParse(flag.defaultSupplier(this)))
         return Optional.present(value.value)
     }
@@ -489,38 +623,68 @@ export class CommandContext extends ParseContext {
     }
 
     /** Creates a fail result */
-    public fail(msg: string): CommandResult {
+    public fail(msg: string): FailResult {
         return failed(this, msg)
     }
 
+    /** Get the locale to respond in, from the user preference, guild setting or client locale */
+    get locale(): string {
+        return Translations.get().resolveLocale({
+            userId: this.author ? this.author.id : undefined,
+            guildId: this.guild ? this.guild.map(g => g.id).orElse(undefined) : undefined,
+            interactionLocale: this.interactionLocale
+        })
+    }
+
+    /** Get the message by the given key in the locale of this context */
+    public t(key: string, params: MessageParams = { }): string {
+        return Translations.get().translate(this.locale, key, params)
+    }
+
+    /** Get the text of the given parse error in the locale of this context */
+    public errorText(error: ParseError): string {
+        return error.key ? Translations.get().translate(this.locale, error.key, error.params, error.text) : error.text
+    }
+
     public override getReader(): StringReader {
         return this.reader
     }
 }
 
+// The accepted explicit values for switches
+const SWITCH_VALUES: Map<string, boolean> = new Map()
+    .set("true", true).set("yes", true).set("on", true).set("1", true)
+    .set("false", false).set("no", false).set("off", false).set("0", false)
+
 /** Represents a flag a node can register to the command tree */
-// todo: implement enum shit like -a = Enum.A, -b = Enum.B at same value
-export class CommandFlag {
-    name: string                                  // The name of the flag
+export class CommandFlag<N extends string = string, T = any> {
+    name: N                                       // The name of the flag
     aliases: string[]                             // The flag aliases
     type: Parser<any>                             // The argument type of the flag
     defaultSupplier: (ctx: CommandContext) => any // The default value supplier (flags are always optional)
     isSwitch: boolean                             // Whether the flag is a switch
+    enumValues: Map<string, any>                  // The values set by each alias, only for enum switches
     assertions: CommandAssertion[] = []           // The list of assertions for this node
+    meta: any = {}                                // Customizable metadata
 
-    public permissions(...perm: string[]): CommandFlag {
+    public description(desc: string): this {
+        this.meta.description = desc
+        return this
+    }
+
+    public permissions(...perm: string[]): this {
         this.assertions.push(CommandAssertions.Permissions(...perm))
         return this
     }
 
-    public discordPermissions(...perm: PermissionResolvable[]): CommandFlag {
+    public discordPermissions(...perm: PermissionResolvable[]): this {
         this.assertions.push(CommandAssertions.DiscordPermissions(...perm))
         return this
     }
 }
 
-export function flag(name: string, type: Parser<any>, def: any = undefined, aliases: string[] = []) {
-    let flag: CommandFlag = new CommandFlag()
+export function flag<N extends string, T>(name: N, type: Parser<T>, def: T = undefined, aliases: string[] = []) {
+    let flag = new CommandFlag<N, T>()
     flag.name = name
     flag.type = type
     if (def) flag.defaultSupplier = () => def
@@ -529,8 +693,19 @@ export function flag(name: string, type: Parser<any>, def: any = undefined, alia
     return flag
 }
 
-export function flagSwitch(name: string, def: boolean, aliases: string[] = []) {
-    let flag: CommandFlag = new CommandFlag()
+/** Creates a switch where each alias sets the flag to a different value, like `-a = Enum.A, -b = Enum.B` */
+export function flagEnum<N extends string, E>(name: N, values: { [alias: string]: E }, def: E = undefined) {
+    let flag = new CommandFlag<N, E>()
+    flag.name = name
+    if (def != undefined) flag.defaultSupplier = () => def
+    flag.enumValues = new Map(Object.entries(values))
+    flag.aliases = Object.keys(values)
+    flag.isSwitch = true
+    return flag
+}
+
+export function flagSwitch<N extends string>(name: N, def: boolean, aliases: string[] = []) {
+    let flag = new CommandFlag<N, boolean>()
     flag.name = name
     if (def) flag.defaultSupplier = () => def
     flag.aliases = aliases
@@ -564,6 +739,49 @@ export interface CommandAssertion {
      * @param ctx The command context
      */
     test(ctx: CommandContext): CommandAssertionResult
+
+    /**
+     * Create the result for a failed test, optional.
+     * @param ctx The command context
+     * @param result The failed assertion result
+     */
+    failResult?(ctx: CommandContext, result: CommandAssertionResult): AssertionFailedResult
+
+    /**
+     * Called once the executor is about to run after all
+     * assertions passed and parsing succeeded, optional.
+     * @param ctx The command context
+     */
+    charge?(ctx: CommandContext): void
+}
+
+// Test the given assertions in order, returns the result of the first failure
+function testAssertions(ctx: CommandContext, assertions: CommandAssertion[]): AssertionFailedResult {
+    for (let a of assertions) {
+        let result = a.test(ctx)
+        if (result.failed) {
+            return a.failResult ? a.failResult(ctx, result) : new AssertionFailedResult(ctx, result.message, a)
+        }
+    }
+
+    return undefined
+}
+
+// Charge the assertions of the traversed nodes and given flags
+function chargeAssertions(ctx: CommandContext) {
+    let flags = [...new Set(ctx.registeredFlags.values())].filter(f => ctx.flagResults.has(f.name))
+    for (let a of [...ctx.nodeStack, ...flags].flatMap(o => o.assertions)) {
+        if (a.charge) a.charge(ctx)
+    }
+}
+
+/** How a missing required argument is asked for instead of failing */
+export type ArgumentPrompt = {
+    label: string       // The question shown to the user
+    placeholder: string // The placeholder of the modal input
+    paragraph: boolean  // Whether the modal input spans multiple lines
+    attempts: number    // The amount of answers accepted before giving up
+    timeout: number     // The time in milliseconds to wait for each answer
 }
 
 /** Represents a node in the command tree */
@@ -580,18 +798,46 @@ export class CommandNode {
     meta: any                                                 // Customizable metadata
     assertions: CommandAssertion[]                            // The list of assertions for this node
     prefix: string                                            // The prefix (only for base commands)
+    suggester: (ctx: CommandContext, input: string) => string[] | Promise<string[]> // Overrides the suggestions of the argument type
+    variadic: boolean                                         // Whether this argument parses values until one does not match
+    minCount: number                                          // The minimum amount of values of a variadic argument
+    greedy: boolean                                           // Whether this argument parses all remaining text
+    contextMenu: ApplicationCommandType.User | ApplicationCommandType.Message // The context menu type if this is a context menu command
+    prompt: ArgumentPrompt                                    // How to ask for this argument if it is missing, undefined to fail instead
+    locks: CommandLock[]                                      // The locks limiting concurrent executions through this node
 
     constructor() {
         this.flags = []
         this.children = []
         this.aliases = []
         this.assertions = []
+        this.locks = []
         this.meta = {}
     }
 }
 
-/** A builder for a command node */
-export class CommandBuilder {
+// Wrap the given executor to convert thrown errors into results
+function wrapExecutor(executor: (ctx: CommandContext) => CommandResult | Promise<CommandResult>): (ctx: CommandContext) => Promise<CommandResult> {
+    return ctx => new Promise(resolve => { 
+        try {
+            resolve(executor(ctx))
+        } catch (e) {
+            if (e instanceof FailError) {
+                return resolve(failed(ctx, e.message))
+            }
+
+            // return error occurred
+            return resolve(new UncaughtErrorResult(ctx, e, ctx.t("error.executor", { error: e })))
+        }
+    })
+}
+
+/**
+ * Builds command nodes, the names and types of the arguments and flags
+ * are accumulated in the type parameters to type the executor context.
+ * A are the arguments, F the flags and O the name of the own argument.
+ */
+export class CommandBuilder<A extends object = {}, F extends object = {}, O extends string = never> {
     protected constructor() { }
 
     /** Creates a new command builder for a literal node */
@@ -602,9 +848,23 @@ export class CommandBuilder {
         return builder
     }
 
+    /** Creates a new command builder for a user context menu command, the target is in `ctx.targetUser` */
+    public static userContextMenu(name: string): CommandBuilder {
+        let builder = CommandBuilder.literal(name)
+        builder.node.contextMenu = ApplicationCommandType.User
+        return builder
+    }
+
+    /** Creates a new command builder for a message context menu command, the target is in `ctx.targetMessage` */
+    public static messageContextMenu(name: string): CommandBuilder {
+        let builder = CommandBuilder.literal(name)
+        builder.node.contextMenu = ApplicationCommandType.Message
+        return builder
+    }
+
     /** Creates a new command builder for an argument node */
-    public static argument(name: string, type: Parser<any>): CommandBuilder {
-        let builder = new CommandBuilder()
+    public static argument<N extends string, T>(name: N, type: Parser<T>): CommandBuilder<{ [K in N]: T }, {}, N> {
+        let builder = new CommandBuilder<{ [K in N]: T }, {}, N>()
         builder.node.name = name
         builder.node.literal = false
         builder.node.argumentType = type
@@ -623,41 +883,41 @@ export class CommandBuilder {
 
     /* ---- Methods ---- */
 
-    public then(node: CommandNode | CommandBuilder): CommandBuilder {
+    /** Add the given child, its executors only know its own arguments and flags unlike with `thenLiteral` and `thenArgument` */
+    public then(node: CommandNode | CommandBuilder<any, any, any>): this {
         this.node.children.push(node instanceof CommandBuilder ? node.toNode() : node)
         return this
     }
 
-    public prefix(prefix: string): CommandBuilder {
+    /** Add a literal child built by the given function, which knows the arguments and flags of this node */
+    public thenLiteral(name: string, build: (builder: CommandBuilder<A, F>) => CommandBuilder<any, any, any> = b => b): this {
+        return this.then(build(CommandBuilder.literal(name) as CommandBuilder<any, any> as CommandBuilder<A, F>))
+    }
+
+    /** Add an argument child built by the given function, which knows the arguments and flags of this node */
+    public thenArgument<N extends string, T>(name: N, type: Parser<T>, build: (builder: CommandBuilder<A & { [K in N]: T }, F, N>) => CommandBuilder<any, any, any> = b => b): this {
+        return this.then(build(CommandBuilder.argument(name, type) as CommandBuilder<any, any, any> as CommandBuilder<A & { [K in N]: T }, F, N>))
+    }
+
+    public prefix(prefix: string): this {
         this.node.prefix = prefix
         return this
     }
 
-    public aliases(...alias: string[]): CommandBuilder {
+    public aliases(...alias: string[]): this {
         this.node.aliases.push(...alias)
         return this
     }
  
-    public executes(executor: (ctx: CommandContext) => CommandResult | Promise<CommandResult>): CommandBuilder {
-        this.node.executor = ctx => new Promise(resolve => { 
-            try {
-                resolve(executor(ctx))
-            } catch (e) {
-                if (e instanceof FailError) {
-                    return resolve(failed(ctx, e.message))
-                }
-
-                // return error occurred
-                return resolve(new UncaughtErrorResult(ctx, e, "Error in executor: `" + e + "`"))
-            }
-        })
-
+    public executes(executor: (ctx: CommandContext<A, F>) => CommandResult | Promise<CommandResult>): this {
+        this.node.executor = wrapExecutor(executor)
         return this
     }
 
-    public optional(defSupplier: ((ctx: CommandContext) => void) | any = _ => undefined): CommandBuilder {
+    public optional(defSupplier: ((ctx: CommandContext) => void) | any = _ => undefined): this {
         if (typeof defSupplier != 'function') {
-            defSupplier = _ => defSupplier
+            let value = defSupplier
+            defSupplier = _ => value
         }
 
         this.node.optional = true
@@ -665,198 +925,1686 @@ export class CommandBuilder {
         return this
     }
 
-    public flag(flag: CommandFlag): CommandBuilder {
-        this.node.flags.push(flag)
+    /** Parse values of the argument type until one does not match, the values are exposed as an array */
+    public variadic(min: number = 1): CommandBuilder<Omit<A, O> & { [K in O]: K extends keyof A ? A[K][] : unknown[] }, F, O> {
+        this.node.variadic = true
+        this.node.minCount = min
+        if (min == 0) this.optional(_ => [])
+        return this as CommandBuilder<any, any, any>
+    }
+
+    /**
+     * Ask for this argument if it is missing instead of failing, through
+     * a modal for interactions or chat messages for text commands.
+     */
+    public prompt(label: string = undefined, options: Partial<Omit<ArgumentPrompt, 'label'>> = { }): this {
+        this.node.prompt = {
+            label: label || this.node.name,
+            placeholder: undefined,
+            paragraph: false,
+            attempts: 3,
+            timeout: 2 * 60 * 1000,
+            ...options
+        }
+
+        return this
+    }
+
+    /** Parse all remaining text with the argument type, registered flags may appear anywhere in the text */
+    public greedy(): this {
+        this.node.greedy = true
         return this
     }
 
-    public asserts(assert: CommandAssertion): CommandBuilder {
+    public flag<N extends string, T>(flag: CommandFlag<N, T>): CommandBuilder<A, F & { [K in N]: T }, O> {
+        this.node.flags.push(flag)
+        return this as CommandBuilder<any, any, any>
+    }
+
+    public asserts(assert: CommandAssertion): this {
         this.node.assertions.push(assert)
         return this
     }
 
-    public permissions(...perms: string[]): CommandBuilder {
+    public permissions(...perms: string[]): this {
         return this.asserts(CommandAssertions.Permissions(...perms))
     }
+
+    public cooldown(duration: number, scope: CooldownScope = CooldownScope.USER, bypassPermission: string = undefined): this {
+        return this.asserts(new CommandCooldown(duration, scope, bypassPermission))
+    }
+
+    /**
+     * Limit the concurrent executions through this node per key, either
+     * one of the scopes or a key derived from the context like its args.
+     */
+    public lock(scope: LockScope | ((ctx: CommandContext) => string) = LockScope.USER, options: Partial<LockOptions> = { }): this {
+        this.node.locks.push(new CommandLock(scope, options))
+        return this
+    }
+
+    /** Limit the concurrent executions through this node across all users */
+    public concurrency(limit: number, queue: boolean = false): this {
+        return this.lock(LockScope.GLOBAL, { limit: limit, queue: queue })
+    }
+
+    public suggests(suggester: (ctx: CommandContext, input: string) => string[] | Promise<string[]>): this {
+        this.node.suggester = suggester
+        return this
+    }
+
+    public description(desc: string): this {
+        this.node.meta.description = desc
+        return this
+    }
+}
+
+// Render the usage of a single node
+function nodeUsage(node: CommandNode): string {
+    if (node.literal) return node.name
+    let name = node.variadic || node.greedy ? node.name + "..." : node.name
+    return node.optional ? "[" + name + "]" : "<" + name + ">"
+}
+
+// Render the usage of a single flag
+function flagUsage(flag: CommandFlag): string {
+    if (flag.enumValues)
+        return "[" + [...flag.enumValues.keys()].map(k => "-" + k).join(" | ") + "]"
+    return flag.isSwitch ? "[-" + flag.name + "]" : "[-" + flag.name + " <" + flag.name + ">]"
+}
+
+/** Render the usage line for the given path of nodes, starting at the base command */
+export function pathUsage(path: CommandNode[], prefix: string = path[0].prefix): string {
+    let parts = path.map((n, i) => i == 0 ? (prefix ? prefix : "") + n.name : nodeUsage(n))
+    let flags = [...new Set(path.flatMap(n => n.flags))]
+    return [...parts, ...flags.map(f => flagUsage(f))].join(" ")
+}
+
+/** Render the usage lines for all executable paths below the end of the given path */
+export function usage(path: CommandNode[], prefix: string = path[0].prefix): string[] {
+    let paths: CommandNode[][] = []
+    collectExecutablePaths(path.at(-1), path.slice(0, -1), paths)
+    return paths.map(p => pathUsage(p, prefix))
 }
 
 export const literal = CommandBuilder.literal
 export const argument = CommandBuilder.argument
+export const userContextMenu = CommandBuilder.userContextMenu
+export const messageContextMenu = CommandBuilder.messageContextMenu
+
+// Get or create the command declaration data for the given method
+function getCommandDeclaration(target: object, propertyKey: string): any {
+    let list = target["___commands"] as any[]
+    if (!list) target["___commands"] = (list = [])
+
+    let data = list.find(d => d.property == propertyKey)
+    if (!data) list.push(data = {
+        "property": propertyKey,
+        "args": [],
+        "flags": [],
+        "assertions": []
+    })
 
-function toErrorResult(ctx: CommandContext, res: ParseResult<any>): FailLikeResult {
-    if (res.error) return new ParseErrorsResult(ctx, res.error)
-    if (res.uncaughtError) return new UncaughtErrorResult(ctx, res.uncaughtError, "Uncaught error while parsing")
-    return null
+    return data
 }
 
-/** The command dispatcher */
-@providedBy("CommandService", DependencyType.SERVICE)
-export class CommandDispatcher {
-    commandMap: Map<string, CommandNode> = new Map() // All registered prefix + aliases mapped to their respective commands
-    commands: CommandNode[] = []                     // A list of all registered commands
-    prefixes: string[] = []                          // All registered prefixes
-    standardPrefix: string                           // The standard prefix to use
-    logCommands: boolean = true                      // Whether it should log command usage
+/** Decorator on methods, declares the method as the executor of the given command path */
+export function command(path: string, description: string = undefined, prefix: string = undefined) {
+    return function(target: object, propertyKey: string, descriptor: PropertyDescriptor) {
+        let data = getCommandDeclaration(target, propertyKey)
+        data.path = path
+        data.description = description
+        data.prefix = prefix
+    }
+}
 
-    /** Register the given command node */
-    public register(nodeOrBuilder: CommandNode | CommandBuilder) {
-        // convert to node
-        let node = nodeOrBuilder instanceof CommandBuilder ? nodeOrBuilder.toNode() : nodeOrBuilder
-    
-        let prefix = node.prefix ? node.prefix : this.standardPrefix
-        if (!this.prefixes.includes(prefix))
-            this.prefixes.push(prefix)
-        node.prefix = prefix
-        this.commands.push(node)
-        this.commandMap.set(prefix + node.name, node)
-        node.aliases.forEach(a => this.commandMap.set(prefix + a, node))
+// Get the argument or flag types known to the given context type
+type ContextArgs<C> = C extends CommandContext<infer A, any> ? A : never
+type ContextFlags<C> = C extends CommandContext<any, infer F> ? F : never
+
+/** Decorator on command methods, declares an argument following the command path, which the context of the method has to know */
+export function arg<N extends string, T>(name: N, type: Parser<T>, optional: boolean = false) {
+    return function<C extends CommandContext<any, any>>(target: object, propertyKey: string, descriptor: TypedPropertyDescriptor<(ctx: C) => any> & (ContextArgs<C> extends { [K in N]: T } ? unknown : never)) {
+        // decorators are applied bottom to top
+        getCommandDeclaration(target, propertyKey).args.unshift({ name: name, type: type, optional: optional })
     }
+}
 
-    /** Dispatch the given command context */
-    public dispatch(ctx: CommandContext): Promise<CommandResult> {
-        try {
-            let reader = ctx.reader
+/** Decorator on command methods, registers the given flag, which the context of the method has to know */
+export function commandFlag<N extends string, T>(flag: CommandFlag<N, T>) {
+    return function<C extends CommandContext<any, any>>(target: object, propertyKey: string, descriptor: TypedPropertyDescriptor<(ctx: C) => any> & (ContextFlags<C> extends { [K in N]: T } ? unknown : never)) {
+        getCommandDeclaration(target, propertyKey).flags.unshift(flag)
+    }
+}
 
-            // find command
-            reader.pushIndex()
-            let commandName = reader.collect(c => c != ' ' && c != '\n').toLowerCase()
-            reader.restore()
-            ctx.command = this.commandMap.get(commandName)
-            if (!ctx.command) {
-                return completedPromise(ctx.fail("No command by name `" + commandName + "`"))
-            }
+/** Decorator on command methods, requires the given permissions */
+export function permission(...perms: string[]) {
+    return function(target: object, propertyKey: string, descriptor: PropertyDescriptor) {
+        getCommandDeclaration(target, propertyKey).assertions.unshift(CommandAssertions.Permissions(...perms))
+    }
+}
 
-            let currentNode = ctx.command                                        // The node we are iterating over
-            let executor: (ctx: CommandContext) => Promise<CommandResult> = null // The executor to run at the end
+/** Register all commands declared in instance to the given dispatcher */
+export function registerCommands(instance: object, dispatcher: CommandDispatcher) {
+    let list = instance["___commands"] as any[]
+    if (!list) return
 
-            while (currentNode) {
-                if (reader.current() == EOS) {
-                    break
-                }
+    list.filter(data => data.path).forEach(data => {
+        let words: string[] = data.path.trim().split(/\s+/)
+        let prefix = data.prefix ? data.prefix : dispatcher.standardPrefix
 
-                // test node assertions
-                for (let a of currentNode.assertions) {
-                    let result = a.test(ctx)
-                    if (result.failed) {
-                        return completedPromise(new AssertionFailedResult(ctx, result.message, a))
-                    }
-                }
+        // find or register the base command
+        let node = dispatcher.findByName(words[0], prefix)
+        if (!node) {
+            node = literal(words[0]).prefix(prefix).toNode()
+            dispatcher.register(node)
+        }
 
-                // parse current node
-                if (currentNode.literal) {
-                    // just skip over the literal
-                    reader.collect(c => c != ' ')
-                } else {
-                    // parse argument value
-                    let res = ctx.parse(currentNode.argumentType)
-                    let err = toErrorResult(ctx, res)
-                    if (err) return completedPromise(err)
-                    ctx.argResult(currentNode.name, res)
-                }
+        // find or create the literal path
+        for (let word of words.slice(1)) {
+            let next = node.children.find(c => c.literal && c.name == word)
+            if (!next) node.children.push(next = literal(word).toNode())
+            node = next
+        }
 
-                // register set flags
-                currentNode.flags.forEach(f => {
-                    ctx.registeredFlags.set(f.name, f)
-                    f.aliases.forEach(s => ctx.registeredFlags.set(s, f))
-                })
+        // flags and assertions go on the path so they
+        // apply when optional arguments are left out
+        node.flags.push(...data.flags)
+        node.assertions.push(...data.assertions)
+
+        // append the arguments, the command
+        // can also run without optional ones
+        let executor = wrapExecutor(ctx => instance[data.property](ctx))
+        for (let a of data.args) {
+            if (a.optional) node.executor = executor
+            let builder = argument(a.name, a.type)
+            if (a.optional) builder.optional()
+            node.children.push(node = builder.toNode())
+        }
 
-                // try and parse flags
-                reader.skipWhitespace()
-                while (reader.current() == '-') {
-                    reader.next()
-                    let ci = reader.idx
-                    let name = reader.collect(c => c != ' ')
-                    let flag = ctx.registeredFlags.get(name)
-                    if (!flag) {
-                        return completedPromise(ctx.fail("No flag by alias `" + name + "`"))
-                    }
+        if (data.description)
+            node.meta.description = data.description
+        node.executor = executor
+    })
+}
 
-                    // test flag assertions
-                    for (let a of flag.assertions) {
-                        let result = a.test(ctx)
-                        if (result.failed) {
-                            return completedPromise(new AssertionFailedResult(ctx, result.message, a))
-                        }
-                    }
+function toErrorResult(ctx: CommandContext, res: ParseResult<any>): FailLikeResult {
+    if (res.error) return new ParseErrorsResult(ctx, res.error)
+    if (res.uncaughtError) return new UncaughtErrorResult(ctx, res.uncaughtError, ctx.t("error.parsing", { error: res.uncaughtError }))
+    return null
+}
 
-                    let value: any 
-                    if (flag.isSwitch) {
-                        value = ctx.completedParse(true)
-                    } else {
-                        reader.next()
+// Combine the given results into one result of all values
+function combineResults(ctx: CommandContext, results: ParseResult<any>[]): ParseResult<any[]> {
+    if (results.every(r => r.isSync))
+        return ctx.completedParse(results.map(r => r.value))
+    return ParseResult.fromPromise(Promise.all(results.map(r => r.await())).then(list =>
+        list.find(r => r.error || r.uncaughtError) || ctx.completedParse(list.map(r => r.value))))
+}
 
-                        // parse flag value
-                        let res = ctx.parse(flag.type)
-                        let err = toErrorResult(ctx, res)
-                        if (err) return completedPromise(err)
-                        value = res
-                    }
+/** Set the application command option type used to expose values of the given parser */
+export function applicationOptionType<P extends Parser<any>>(parser: P, type: ApplicationCommandOptionType, data: object = { }): P {
+    parser["___application_option_type"] = type
+    parser["___application_option_data"] = data
+    return parser
+}
 
-                    ctx.flagResult(flag.name, value)
-                }
+// Get the application command option type for the given parser
+function getApplicationOptionType(parser: Parser<any>): ApplicationCommandOptionType {
+    let type = parser ? parser["___application_option_type"] : undefined
+    return type ? type : ApplicationCommandOptionType.String
+}
 
-                // check for executor
-                if (currentNode.executor) {
-                    executor = currentNode.executor
-                }
+// Get the additional application command option data for the given parser
+function getApplicationOptionData(parser: Parser<any>): object {
+    let data = parser ? parser["___application_option_data"] : undefined
+    return data ? data : { }
+}
 
-                // select next node
-                currentNode = this.findNext(ctx, currentNode)
-                if (!currentNode && reader.current() != EOS) {
-                    let ci = reader.idx
-                    let s = reader.collect(c => c != ' ')
-                    return completedPromise(ctx.fail("No subcommand by name `" + s + "`"))
-                }
+/** Converts the given name into a valid application command/option name */
+export function toApplicationCommandName(name: string): string {
+    return name.toLowerCase().replace(/[^-_\p{L}\p{N}]/gu, "-").substring(0, 32)
+}
 
-                ctx.nodeStack.push(currentNode)
-            }
+// Check whether the option type supports autocompletion
+function isAutocompletable(type: ApplicationCommandOptionType): boolean {
+    return type == ApplicationCommandOptionType.String || type == ApplicationCommandOptionType.Number || type == ApplicationCommandOptionType.Integer
+}
 
-            // run the executor
-            // after all awaitables
-            // have completed
-            if (executor) {
-                return ctx.promise = ctx.awaitPromises().then(res => res.result ? res.result : executor(res.context))
-            }
+// Get the application command description for the given node
+function getApplicationDescription(meta: any, name: string): string {
+    return truncate(meta && meta.description ? meta.description : name, 100)
+}
 
-            // no executor, dont await shit
-            return completedPromise(noExecutor(ctx))
-        } catch (e) {
-            // throw system error
-            return completedPromise(new UncaughtErrorResult(ctx, e, "System Error: `" + e + "`"))
-        }
-    }
+// Create the key for an application command path
+function applicationCommandPathKey(name: string, group: string, sub: string): string {
+    return name + (group ? " " + group : "") + (sub ? " " + sub : "")
+}
 
-    // Select the next node to be handled
-    private findNext(ctx: CommandContext, currentNode: CommandNode): CommandNode {
-        let it: CommandNode = null // The selected node
+/** The custom id prefix of argument prompt modals */
+const PROMPT_MODAL_PREFIX = "command-prompt:"
 
-        let reader = ctx.reader
-        reader.pushIndex()
-        let s = reader.collect(c => c != ' ')
+// Check whether the given node is a required argument which should be prompted for
+function needsPrompt(node: CommandNode): boolean {
+    return !node.literal && !node.optional && !!node.prompt
+}
 
-        let children = currentNode.children
-        for (let i = 0; i < children.length; i++) {
-            let node = children[i]
+// Collect the chain of prompted arguments starting at the given node
+function collectPromptChain(node: CommandNode): CommandNode[] {
+    let nodes: CommandNode[] = []
+    while (node && needsPrompt(node)) {
+        nodes.push(node)
+        node = node.children.find(n => !n.literal)
+    }
 
-            // check for literal
-            if (node.literal) {
-                if (s == node.name) {
-                    it = node
-                    break
+    return nodes
+}
+
+// Show the modal asking for the given arguments with the given kept answers
+// through the given interaction, resolves to the submission or undefined on timeout
+function showPromptModal(opener: CommandInteraction | ButtonInteraction, customId: string, command: CommandNode,
+                         nodes: CommandNode[], answers: Map<string, string>): Promise<ModalSubmitInteraction> {
+    let timeout = Math.max(...nodes.map(n => n.prompt.timeout))
+    return opener.showModal({
+        customId: customId,
+        title: truncate(nodes[0].prompt.label == nodes[0].name ? command.name : nodes[0].prompt.label, 45),
+        components: nodes.map(n => ({
+            type: ComponentType.ActionRow as const,
+            components: [{
+                type: ComponentType.TextInput as const,
+                customId: n.name,
+                label: truncate(n.prompt.label, 45),
+                style: n.prompt.paragraph ? TextInputStyle.Paragraph : TextInputStyle.Short,
+                placeholder: n.prompt.placeholder,
+                value: answers.get(n.name),
+                required: true
+            }]
+        }))
+    }).then(_ => opener.awaitModalSubmit({ filter: i => i.customId == customId, time: timeout }).catch(_ => undefined))
+}
+
+/** Get the key of a context menu command by type and name */
+export function contextMenuKey(type: ApplicationCommandType, name: string): string {
+    return type + ":" + name
+}
+
+/** Get the names of the literal nodes of the given path, the policy key of a command */
+export function commandPath(path: CommandNode[]): string[] {
+    return path.filter(n => n.literal).map(n => n.name)
+}
+
+/** The maximum amount of aliases expanding to each other */
+const MAX_ALIAS_DEPTH = 5
+
+/** Replace the `$1`-style and `$@` placeholders of the given alias command with the quoted arguments, appending them if it has none */
+export function expandAlias(command: string, args: string[]): string {
+    let quoted = args.map(a => quoteString(a))
+    if (!/\$(\d+|@)/.test(command))
+        return quoted.length > 0 ? command + " " + quoted.join(" ") : command
+    return command.replace(/\$(\d+|@)/g, (_, p) => p == "@" ? quoted.join(" ") : quoted[Number(p) - 1] || "").trim()
+}
+
+// Collect all paths through the tree ending in an executable node
+function collectExecutablePaths(node: CommandNode, path: CommandNode[], out: CommandNode[][]) {
+    path = [...path, node]
+    if (node.executor)
+        out.push(path)
+    node.children.forEach(c => collectExecutablePaths(c, path, out))
+}
+
+/** The value returned by a middleware stage, a result short-circuits the dispatch */
+export type MiddlewareReturn = CommandResult | void | Promise<CommandResult | void>
+
+/** Intercepts the dispatching of commands, all stages are optional */
+export interface CommandMiddleware {
+    /**
+     * Called before the command is resolved and parsed, the
+     * reader may be modified to rewrite the input.
+     * @param ctx The command context
+     */
+    beforeParse?(ctx: CommandContext): MiddlewareReturn
+
+    /**
+     * Called after all arguments have been parsed, right
+     * before the executor is invoked.
+     * @param ctx The command context
+     */
+    beforeExecute?(ctx: CommandContext): MiddlewareReturn
+
+    /**
+     * Called with the final result, returning a result
+     * replaces it.
+     * @param ctx The command context
+     * @param result The result so far
+     */
+    afterResult?(ctx: CommandContext, result: CommandResult): MiddlewareReturn
+}
+
+/** Stores the custom prefixes of guilds */
+export class GuildPrefixes {
+    dataIO: DataIO                                // The data IO provider to use
+    prefixes: Map<string, string[]> = new Map()   // The custom prefixes by guild ID
+
+    /** Get the custom prefixes for the given guild, undefined if unset */
+    public get(guildId: string): string[] {
+        return this.prefixes.get(guildId)
+    }
+
+    /** Set the custom prefixes for the given guild, empty to reset */
+    public set(guildId: string, prefixes: string[]) {
+        if (!prefixes || prefixes.length == 0) {
+            this.prefixes.delete(guildId)
+            return
+        }
+
+        this.prefixes.set(guildId, [...new Set(prefixes)])
+    }
+
+    /** Loads all persistent data (synchronous) */
+    loadAllPersistentData() {
+        let data = this.dataIO.load()
+
+        /// Prefixes
+        let prefixes = data.prefixes || { }
+        Object.entries(prefixes).forEach(e => this.prefixes.set(e[0], e[1] as string[]))
+    }
+
+    /** Saves all persistent data */
+    async saveAllPersistentData() {
+        let data = { } as any
+
+        /// Prefixes
+        data.prefixes = Object.fromEntries(this.prefixes)
+
+        this.dataIO.save(data)
+    }
+}
+
+/** The policy of a command path in a guild, applies to all subcommands */
+export type CommandPolicy = {
+    disabled: boolean         // Whether the command is disabled in all channels
+    allowedChannels: string[] // The only channels the command is allowed in, empty for all
+    deniedChannels: string[]  // The channels the command is denied in
+    bypassRoles: string[]     // The roles which are not restricted by this policy
+}
+
+/** Stores the command policies of guilds by command path */
+export class GuildCommandPolicies {
+    dataIO: DataIO                                                // The data IO provider to use
+    policies: Map<string, Map<string, CommandPolicy>> = new Map() // The policies by command path by guild ID
+
+    /** Get all policies of the given guild by command path */
+    public all(guildId: string): Map<string, CommandPolicy> {
+        return this.policies.get(guildId) || new Map()
+    }
+
+    /** Get the policy of the given command path, undefined if unset */
+    public get(guildId: string, path: string): CommandPolicy {
+        let map = this.policies.get(guildId)
+        return map ? map.get(path) : undefined
+    }
+
+    /** Get or create the policy of the given command path */
+    public getOrCreate(guildId: string, path: string): CommandPolicy {
+        let map = this.policies.get(guildId)
+        if (!map) this.policies.set(guildId, map = new Map())
+
+        let policy = map.get(path)
+        if (!policy) map.set(path, policy = { disabled: false, allowedChannels: [], deniedChannels: [], bypassRoles: [] })
+        return policy
+    }
+
+    /** Remove the policy of the given command path if it has no effect or if forced */
+    public clean(guildId: string, path: string, force: boolean = false) {
+        let map = this.policies.get(guildId)
+        let policy = map ? map.get(path) : undefined
+        if (!policy)
+            return
+
+        if (force || (!policy.disabled && policy.allowedChannels.length == 0 && policy.deniedChannels.length == 0 && policy.bypassRoles.length == 0)) {
+            map.delete(path)
+            if (map.size == 0) this.policies.delete(guildId)
+        }
+    }
+
+    /** Get the message key why the command path is denied in the given context with the denied path, undefined if allowed */
+    public check(guildId: string, channelIds: string[], roleIds: string[], path: string[]): [string, string] {
+        let map = this.policies.get(guildId)
+        if (!map)
+            return undefined
+
+        // check the policies of the path and all parent paths
+        for (let i = path.length; i > 0; i--) {
+            let key = path.slice(0, i).join(" ")
+            let policy = map.get(key)
+            if (!policy || policy.bypassRoles.some(r => roleIds.includes(r)))
+                continue
+
+            if (policy.disabled)
+                return ["policy.disabledInServer", key]
+            if (channelIds.some(c => policy.deniedChannels.includes(c)) ||
+                (policy.allowedChannels.length > 0 && !channelIds.some(c => policy.allowedChannels.includes(c))))
+                return ["policy.disabledInChannel", key]
+        }
+
+        return undefined
+    }
+
+    /** Loads all persistent data (synchronous) */
+    loadAllPersistentData() {
+        let data = this.dataIO.load()
+
+        /// Policies
+        let policies = data.policies || { }
+        Object.entries(policies).forEach(e => this.policies.set(e[0], new Map(Object.entries(e[1]))))
+    }
+
+    /** Saves all persistent data */
+    async saveAllPersistentData() {
+        let data = { } as any
+
+        /// Policies
+        data.policies = Object.fromEntries([...this.policies].map(e => [e[0], Object.fromEntries(e[1])]))
+
+        this.dataIO.save(data)
+    }
+}
+
+/** The reply sent for a command message, tracked to follow edits and deletions */
+export type TrackedReply = {
+    reply: Message         // The reply message, undefined if no message was sent
+    result: CommandResult  // The result the reply was sent for
+    content: string        // The content of the command message the result was for
+    time: number           // The time the command message was sent in epoch milliseconds
+}
+
+/** A user defined shortcut, running one or more commands with its arguments */
+export type CommandAlias = {
+    commands: string[] // The commands to run in order without prefix, with `$1`-style and `$@` placeholders
+    createdBy: string  // The ID of the user which created the alias
+}
+
+/** Stores the aliases defined by each guild */
+export class GuildCommandAliases {
+    dataIO: DataIO                                              // The data IO provider to use
+    aliases: Map<string, Map<string, CommandAlias>> = new Map() // The aliases by name by guild ID
+
+    /** Get all aliases of the given guild by name */
+    public all(guildId: string): Map<string, CommandAlias> {
+        return this.aliases.get(guildId) || new Map()
+    }
+
+    /** Get the alias by the given name, undefined if unset */
+    public get(guildId: string, name: string): CommandAlias {
+        let map = this.aliases.get(guildId)
+        return map ? map.get(name) : undefined
+    }
+
+    /** Set the alias by the given name */
+    public set(guildId: string, name: string, alias: CommandAlias) {
+        let map = this.aliases.get(guildId)
+        if (!map) this.aliases.set(guildId, map = new Map())
+        map.set(name, alias)
+    }
+
+    /** Remove the alias by the given name, returns whether it existed */
+    public remove(guildId: string, name: string): boolean {
+        let map = this.aliases.get(guildId)
+        if (!map || !map.delete(name))
+            return false
+        if (map.size == 0) this.aliases.delete(guildId)
+        return true
+    }
+
+    /** Loads all persistent data (synchronous) */
+    loadAllPersistentData() {
+        let data = this.dataIO.load()
+
+        /// Aliases
+        let aliases = data.aliases || { }
+        Object.entries(aliases).forEach(e => this.aliases.set(e[0], new Map(Object.entries(e[1]))))
+    }
+
+    /** Saves all persistent data */
+    async saveAllPersistentData() {
+        let data = { } as any
+
+        /// Aliases
+        data.aliases = Object.fromEntries([...this.aliases].map(e => [e[0], Object.fromEntries(e[1])]))
+
+        this.dataIO.save(data)
+    }
+}
+
+/** The command dispatcher */
+@providedBy("CommandService", DependencyType.SERVICE)
+export class CommandDispatcher {
+    commandMap: Map<string, CommandNode> = new Map() // All registered prefix + aliases mapped to their respective commands
+    commandsByName: Map<string, CommandNode[]> = new Map() // All registered names + aliases without prefix mapped to the commands using them
+    commands: CommandNode[] = []                     // A list of all registered commands
+    prefixes: string[] = []                          // All registered prefixes
+    standardPrefix: string                           // The standard prefix to use
+    guildPrefixes: GuildPrefixes = new GuildPrefixes() // The custom prefixes replacing the standard prefix per guild
+    guildPolicies: GuildCommandPolicies = new GuildCommandPolicies() // The command policies per guild
+    guildAliases: GuildCommandAliases = new GuildCommandAliases() // The user defined aliases per guild, checked before the commands
+    mentionPrefix: boolean = true                    // Whether mentioning the bot can be used as a prefix
+    logCommands: boolean = true                      // Whether it should log command usage
+    replyWindow: number = 5 * 60 * 1000              // The time in milliseconds commands are re-run on edits and replies deleted with them, 0 to disable
+    trackedReplies: Map<string, TrackedReply> = new Map() // The replies by the ID of the command message they were sent for
+    middleware: CommandMiddleware[] = []             // The middleware chain in order
+
+    applicationCommandPaths: Map<string, CommandNode[]> = new Map() // All application command paths by command, group and subcommand names
+    applicationCommandGuilds: string[]                              // The guilds to register application commands to, undefined for global
+    contextMenus: Map<string, CommandNode> = new Map()              // All context menu commands by type and name
+    registerApplicationCommandsOnReady: boolean = false             // Whether to register the application commands once the client is ready
+
+    /** Register the given command node */
+    public register(nodeOrBuilder: CommandNode | CommandBuilder) {
+        // convert to node
+        let node = nodeOrBuilder instanceof CommandBuilder ? nodeOrBuilder.toNode() : nodeOrBuilder
+
+        // context menu commands are only
+        // invoked through interactions
+        if (node.contextMenu) {
+            this.contextMenus.set(contextMenuKey(node.contextMenu, node.name), node)
+            return
+        }
+    
+        let prefix = node.prefix ? node.prefix : this.standardPrefix
+        if (!this.prefixes.includes(prefix))
+            this.prefixes.push(prefix)
+        node.prefix = prefix
+        this.commands.push(node)
+        this.commandMap.set(prefix + node.name, node)
+        node.aliases.forEach(a => this.commandMap.set(prefix + a, node))
+        for (let name of [node.name, ...node.aliases]) {
+            let list = this.commandsByName.get(name)
+            if (!list) this.commandsByName.set(name, list = [])
+            list.push(node)
+        }
+    }
+
+    /** Find the command by the given name or alias with the given prefix, any prefix preferring the standard one if not given */
+    public findByName(name: string, prefix: string = undefined): CommandNode {
+        let list = this.commandsByName.get(name) || []
+        if (prefix != undefined)
+            return list.find(n => n.prefix == prefix)
+        return list.find(n => n.prefix == this.standardPrefix) || list[0]
+    }
+
+    /** Get the prefixes the standard prefix commands use in the given guild */
+    public getPrefixes(guildId: string): string[] {
+        let custom = guildId ? this.guildPrefixes.get(guildId) : undefined
+        return custom ? custom : [this.standardPrefix]
+    }
+
+    /** Get the prefix to display for the given command in the given guild */
+    public displayPrefix(node: CommandNode, guildId: string): string {
+        return node.prefix == this.standardPrefix ? this.getPrefixes(guildId)[0] : node.prefix
+    }
+
+    // Match the mention prefix at the start of the given string
+    private matchMention(ctx: CommandContext, str: string): string {
+        if (!this.mentionPrefix || !ctx.client || !ctx.client.user)
+            return undefined
+        let match = str.match(new RegExp("^<@!?" + ctx.client.user.id + ">\\s*"))
+        return match ? match[0] : undefined
+    }
+
+    /** Check whether the given string starts with any prefix usable in the context */
+    public hasPrefix(ctx: CommandContext, str: string): boolean {
+        let guildId = ctx.guild ? ctx.guild.map(g => g.id).orElse(undefined) : undefined
+        return this.matchMention(ctx, str) != undefined ||
+            this.getPrefixes(guildId).some(p => str.startsWith(p)) ||
+            this.prefixes.some(p => p != this.standardPrefix && str.startsWith(p))
+    }
+
+    // Find the guild alias at the readers position,
+    // resolves to the prefix, name and alias if any
+    private findAlias(ctx: CommandContext): [string, string, CommandAlias] {
+        if (!ctx.message || !ctx.guild.isPresent())
+            return undefined
+
+        let guildId = ctx.guild.get().id
+        let aliases = this.guildAliases.all(guildId)
+        if (aliases.size == 0)
+            return undefined
+
+        let str = ctx.reader.str.substring(ctx.reader.idx)
+        let mention = this.matchMention(ctx, str)
+        for (let prefix of mention ? [mention] : this.getPrefixes(guildId)) {
+            if (!str.startsWith(prefix))
+                continue
+            let name = str.substring(prefix.length).split(/\s/)[0].toLowerCase()
+            let alias = aliases.get(name)
+            if (alias) return [prefix, name, alias]
+        }
+
+        return undefined
+    }
+
+    // Run the commands of the given alias in order, the last
+    // one is dispatched on the given context for its result
+    private async dispatchAlias(ctx: CommandContext, prefix: string, name: string, alias: CommandAlias): Promise<CommandResult> {
+        if (ctx.aliasStack.includes(name)) {
+            return ctx.fail(ctx.t("alias.recursive", { name: name, chain: "`" + ctx.aliasStack.join("` > `") + "`" }))
+        }
+
+        if (ctx.aliasStack.length >= MAX_ALIAS_DEPTH) {
+            return ctx.fail(ctx.t("alias.tooDeep", { max: MAX_ALIAS_DEPTH }))
+        }
+
+        // collect the arguments after the name,
+        // quoted ones are kept together
+        let reader = ctx.reader
+        reader.next(prefix.length)
+        reader.collect(UNTIL_WHITESPACE)
+        reader.skipWhitespace()
+        let args: string[] = []
+        try {
+            while (reader.current() != EOS) {
+                args.push(reader.collectString())
+                reader.skipWhitespace()
+            }
+        } catch (e) {
+            if (e instanceof ParseError) return new ParseErrorsResult(ctx, e)
+            throw e
+        }
+
+        let commands = alias.commands.map(c => prefix + expandAlias(c, args))
+
+        // run all but the last command on their own
+        // contexts and stop at the first failure
+        for (let command of commands.slice(0, -1)) {
+            let sub = new CommandContext()
+            sub.reader = new StringReader(command)
+            sub.setMessage(ctx.message)
+            sub.aliasStack = [...ctx.aliasStack, name]
+
+            let result = await this.dispatch(sub)
+            if (!result.success) {
+                return result
+            }
+
+            result.handleDefault()
+        }
+
+        ctx.reader = new StringReader(commands.at(-1))
+        ctx.aliasStack.push(name)
+        return this.dispatchParsed(ctx)
+    }
+
+    // Find the command at the readers position and
+    // move the reader past the prefix
+    private findCommand(ctx: CommandContext): CommandNode {
+        let reader = ctx.reader
+        let str = reader.str.substring(reader.idx)
+        let guildId = ctx.guild ? ctx.guild.map(g => g.id).orElse(undefined) : undefined
+
+        // collects the name following the prefix
+        const nameAfter = (prefix: string) => {
+            reader.pushIndex()
+            reader.next(prefix.length)
+            let name = reader.collect(UNTIL_WHITESPACE).toLowerCase()
+            reader.restore()
+            return name
+        }
+
+        const use = (prefix: string, node: CommandNode) => {
+            ctx.prefix = prefix
+            reader.next(prefix.length)
+            return node
+        }
+
+        // check mention prefix, matches all commands
+        let mention = this.matchMention(ctx, str)
+        if (mention) {
+            let node = this.findByName(nameAfter(mention))
+            return node ? use(mention, node) : undefined
+        }
+
+        // check prefixes of standard prefix commands
+        for (let prefix of this.getPrefixes(guildId)) {
+            if (!str.startsWith(prefix))
+                continue
+            let node = this.findByName(nameAfter(prefix), this.standardPrefix)
+            if (node)
+                return use(prefix, node)
+        }
+
+        // check commands with custom prefixes
+        let node = this.commandMap.get(nameAfter(""))
+        if (node && node.prefix != this.standardPrefix)
+            return use(node.prefix, node)
+        return undefined
+    }
+
+    /** Add the given middleware to the end of the chain */
+    public use(middleware: CommandMiddleware): this {
+        this.middleware.push(middleware)
+        return this
+    }
+
+    // Run the given stage of all middleware in order until one returns a result
+    private runMiddleware(ctx: CommandContext, stage: (m: CommandMiddleware) => MiddlewareReturn): Promise<CommandResult> {
+        let promise: Promise<CommandResult> = completedPromise(undefined)
+        for (let m of this.middleware) {
+            promise = promise.then(r => r ? r : stage(m) as Promise<CommandResult>)
+        }
+
+        return promise.catch(e => new UncaughtErrorResult(ctx, e, ctx.t("error.middleware", { error: e })))
+    }
+
+    // Run the after result stage of all middleware in order, each
+    // may replace the result
+    private runAfterResult(ctx: CommandContext, result: CommandResult): Promise<CommandResult> {
+        let promise: Promise<CommandResult> = completedPromise(result)
+        for (let m of this.middleware) {
+            if (!m.afterResult) continue
+            promise = promise.then(r => Promise.resolve(m.afterResult(ctx, r)).then(nr => nr ? nr : r))
+        }
+
+        return promise.catch(e => new UncaughtErrorResult(ctx, e, ctx.t("error.middleware", { error: e })))
+    }
+
+    /** Get the message why the current command path is denied by the guild policy, undefined if allowed */
+    public checkPolicy(ctx: CommandContext): string {
+        if (!ctx.guild.isPresent() || !ctx.channel)
+            return undefined
+
+        let channel = ctx.channel
+        let channelIds = [channel.id]
+        if (channel.isThread() && channel.parentId) channelIds.push(channel.parentId)
+        let roleIds = ctx.member.map(m => [...m.roles.cache.keys()]).orElse([])
+        let denied = this.guildPolicies.check(ctx.guild.get().id, channelIds, roleIds, commandPath(ctx.nodeStack))
+        return denied ? ctx.t(denied[0], { path: denied[1] }) : undefined
+    }
+
+    // Check the guild policy, run the before execute stage and
+    // the executor if not short-circuited
+    private execute(ctx: CommandContext, executor: (ctx: CommandContext) => Promise<CommandResult>): Promise<CommandResult> {
+        let denied = this.checkPolicy(ctx)
+        if (denied)
+            return completedPromise(ctx.fail(denied))
+
+        return this.runMiddleware(ctx, m => m.beforeExecute ? m.beforeExecute(ctx) : undefined)
+            .then(r => r ? r : this.executeLocked(ctx, executor))
+    }
+
+    // Take a slot of every lock on the node stack in order, run
+    // the executor and free the slots once its result is ready
+    private async executeLocked(ctx: CommandContext, executor: (ctx: CommandContext) => Promise<CommandResult>): Promise<CommandResult> {
+        let locks = [...new Set(ctx.nodeStack.flatMap(n => n.locks))]
+        let releases: (() => void)[] = []
+        try {
+            for (let lock of locks) {
+                let release: () => void
+                try {
+                    release = await lock.acquire(ctx)
+                } catch (e) {
+                    // a custom key function threw
+                    return new UncaughtErrorResult(ctx, e, ctx.t("error.lock", { error: e }))
+                }
+
+                if (!release) {
+                    return new ConcurrencyResult(ctx, lock.failMessage(ctx), lock)
+                }
+
+                releases.push(release)
+            }
+
+            chargeAssertions(ctx)
+            return await executor(ctx)
+        } finally {
+            releases.reverse().forEach(r => r())
+        }
+    }
+
+    /** Dispatch the given command context through the middleware chain */
+    public dispatch(ctx: CommandContext): Promise<CommandResult> {
+        return this.runMiddleware(ctx, m => m.beforeParse ? m.beforeParse(ctx) : undefined)
+            .then(r => r ? r : this.dispatchParsed(ctx))
+            .then(r => this.runAfterResult(ctx, r))
+    }
+
+    // Resolve, parse and execute the given command context
+    private async dispatchParsed(ctx: CommandContext): Promise<CommandResult> {
+        try {
+            let reader = ctx.reader
+
+            // expand guild aliases first
+            let alias = this.findAlias(ctx)
+            if (alias) {
+                return this.dispatchAlias(ctx, ...alias)
+            }
+
+            // find command
+            reader.pushIndex()
+            let commandName = reader.collect(UNTIL_WHITESPACE).toLowerCase()
+            reader.restore()
+            ctx.command = this.findCommand(ctx)
+            if (!ctx.command) {
+                return completedPromise(this.failUnknownCommand(ctx, commandName))
+            }
+
+            let currentNode = ctx.command                                        // The node we are iterating over
+            let executor: (ctx: CommandContext) => Promise<CommandResult> = null // The executor to run at the end
+            ctx.nodeStack.push(currentNode)
+
+            while (currentNode) {
+                if (reader.current() == EOS) {
+                    break
+                }
+
+                // test node assertions
+                let failure = testAssertions(ctx, currentNode.assertions)
+                if (failure) return completedPromise(failure)
+
+                // register set flags and the arguments
+                // which may follow for their defaults
+                currentNode.flags.forEach(f => {
+                    ctx.registeredFlags.set(f.name, f)
+                    f.aliases.forEach(s => ctx.registeredFlags.set(s, f))
+                })
+
+                currentNode.children.filter(n => !n.literal).forEach(n => ctx.registeredArgs.set(n.name, n))
+
+                // parse current node
+                if (currentNode.literal) {
+                    // just skip over the literal
+                    reader.collect(UNTIL_WHITESPACE)
+                } else if (currentNode.variadic || currentNode.greedy) {
+                    // parse repeated values or text
+                    let failure = await (currentNode.greedy ? this.parseGreedy(ctx, currentNode, true) : this.parseVariadic(ctx, currentNode, true))
+                    if (failure) return failure
+                } else {
+                    // parse argument value
+                    let ci = reader.idx
+                    let res = ctx.parse(currentNode.argumentType)
+                    let err = toErrorResult(ctx, res)
+                    if (err) return this.withHints(ctx, err, this.suggest(ctx, currentNode, reader.str.substring(ci).split(/\s/)[0]))
+                    ctx.argResult(currentNode.name, res)
+                }
+
+                // try and parse flags
+                reader.skipWhitespace()
+                let flagFailure = this.parseFlags(ctx)
+                if (flagFailure) return flagFailure
+
+                // check for executor
+                if (currentNode.executor) {
+                    executor = currentNode.executor
+                }
+
+                // select next node
+                let nextNode = this.findNext(ctx, currentNode)
+                if (!nextNode && reader.current() != EOS) {
+                    let ci = reader.idx
+                    let s = reader.collect(UNTIL_WHITESPACE)
+                    let literals = currentNode.children.filter(n => n.literal).flatMap(n => [n.name, ...n.aliases])
+                    return this.withHints(ctx, this.failWithMatches(ctx, ctx.t("command.unknownSubcommand", { name: s }), literals, ci, reader.idx), this.suggestChildren(ctx, currentNode, s))
+                }
+
+                currentNode = nextNode
+                if (currentNode)
+                    ctx.nodeStack.push(currentNode)
+            }
+
+            // ask for missing prompted arguments
+            if (currentNode && needsPrompt(currentNode)) {
+                return this.promptMissing(ctx, currentNode, executor)
+            }
+
+            // run the executor
+            // after all awaitables
+            // have completed
+            if (executor) {
+                return ctx.promise = ctx.awaitPromises().then(res => res.result ? res.result : this.execute(res.context, executor))
+            }
+
+            // no executor, dont await shit
+            return completedPromise(noExecutor(ctx))
+        } catch (e) {
+            // throw system error
+            return completedPromise(new UncaughtErrorResult(ctx, e, ctx.t("error.system", { error: e })))
+        }
+    }
+
+    /** Build the application command data for all registered commands */
+    public buildApplicationCommands(): ApplicationCommandDataResolvable[] {
+        this.applicationCommandPaths.clear()
+
+        // Discord rejects the whole registration on duplicate names,
+        // so only the first command by each name is kept
+        let names: Set<string> = new Set()
+        let commands = this.commands.filter(node => {
+            if (node.meta.slash == false)
+                return false
+            let name = toApplicationCommandName(node.name)
+            if (names.has(name)) {
+                logger.warn("Skipping slash command for {0}, the name /{1} is already used", node.prefix + node.name, name)
+                return false
+            }
+
+            names.add(name)
+            return true
+        })
+
+        return [
+            ...commands.map(node => this.buildApplicationCommand(node)),
+            ...[...this.contextMenus.values()]
+                .map(node => ({ type: node.contextMenu, name: node.name }))
+        ]
+    }
+
+    // Build the application command data for the given base command
+    private buildApplicationCommand(root: CommandNode): ApplicationCommandDataResolvable {
+        let name = toApplicationCommandName(root.name)
+
+        // group all executable paths by
+        // their subcommand group and name
+        let paths: CommandNode[][] = []
+        collectExecutablePaths(root, [], paths)
+        let grouped: Map<string, { group: string, sub: string, paths: CommandNode[][] }> = new Map()
+        paths.forEach(path => {
+            let literals = path.slice(1).filter(n => n.literal).map(n => toApplicationCommandName(n.name))
+            let group = literals.length >= 2 ? literals[0] : undefined
+            let sub = literals.length >= 2 ? literals.slice(1).join("-") : literals[0]
+            let key = applicationCommandPathKey(name, group, sub)
+
+            let entry = grouped.get(key)
+            if (!entry) grouped.set(key, entry = { group: group, sub: sub, paths: [] })
+            entry.paths.push(path)
+        })
+
+        // Discord does not allow options next
+        // to subcommands, so drop the base path
+        let hasSubcommands = [...grouped.values()].some(e => e.sub)
+        let options: ApplicationCommandOptionData[] = []
+        let baseOptions: ApplicationCommandOptionData[] = []
+        grouped.forEach((entry, key) => {
+            if (hasSubcommands && !entry.sub)
+                return
+
+            // select the longest path, arguments
+            // not present in all paths are optional
+            let path = entry.paths.reduce((a, b) => b.length > a.length ? b : a)
+            let minArgs = Math.min(...entry.paths.map(p => p.filter(n => !n.literal).length))
+            this.applicationCommandPaths.set(key, path)
+
+            let pathOptions = this.buildApplicationOptions(path, minArgs)
+            if (!entry.sub) {
+                baseOptions = pathOptions
+                return
+            }
+
+            let lastLiteral = path.filter(n => n.literal).at(-1)
+            let subcommand = {
+                type: ApplicationCommandOptionType.Subcommand,
+                name: entry.sub,
+                description: getApplicationDescription(lastLiteral.meta, lastLiteral.name),
+                options: pathOptions
+            }
+
+            if (!entry.group) {
+                options.push(subcommand as ApplicationCommandOptionData)
+                return
+            }
+
+            // find or create the subcommand group
+            let group = options.find(o => o.type == ApplicationCommandOptionType.SubcommandGroup && o.name == entry.group)
+            if (!group) {
+                let groupNode = path.slice(1).find(n => n.literal)
+                options.push(group = {
+                    type: ApplicationCommandOptionType.SubcommandGroup,
+                    name: entry.group,
+                    description: getApplicationDescription(groupNode.meta, groupNode.name),
+                    options: []
+                })
+            }
+
+            group["options"].push(subcommand)
+        })
+
+        return {
+            name: name,
+            description: getApplicationDescription(root.meta, root.name),
+            options: hasSubcommands ? options : baseOptions
+        }
+    }
+
+    // Build the argument and flag options for the given path
+    private buildApplicationOptions(path: CommandNode[], minArgs: number): ApplicationCommandOptionData[] {
+        let options: ApplicationCommandOptionData[] = []
+
+        // add arguments, required options
+        // have to come before optional ones
+        let required = true
+        path.filter(n => !n.literal).forEach((node, i) => {
+            required &&= !node.optional && !node.prompt && i < minArgs
+            let type = node.variadic ? ApplicationCommandOptionType.String : getApplicationOptionType(node.argumentType)
+            options.push({
+                type: type,
+                name: toApplicationCommandName(node.name),
+                description: getApplicationDescription(node.meta, node.name),
+                required: required,
+                autocomplete: isAutocompletable(type) && !!(node.suggester || node.argumentType.suggest),
+                ...(node.variadic ? { } : getApplicationOptionData(node.argumentType))
+            } as ApplicationCommandOptionData)
+        })
+
+        // add flags as optional options
+        path.flatMap(n => n.flags).forEach(flag => {
+            let name = toApplicationCommandName(flag.name)
+            if (options.some(o => o.name == name))
+                return
+            if (flag.enumValues) {
+                options.push({
+                    type: ApplicationCommandOptionType.String,
+                    name: name,
+                    description: getApplicationDescription(flag.meta, flag.name),
+                    required: false,
+                    choices: [...flag.enumValues.keys()].slice(0, 25).map(k => ({ name: k, value: k }))
+                } as ApplicationCommandOptionData)
+                return
+            }
+
+            let type = flag.isSwitch ? ApplicationCommandOptionType.Boolean : getApplicationOptionType(flag.type)
+            options.push({
+                type: type,
+                name: name,
+                description: getApplicationDescription(flag.meta, flag.name),
+                required: false,
+                autocomplete: isAutocompletable(type) && !flag.isSwitch && !!flag.type.suggest,
+                ...(flag.isSwitch ? { } : getApplicationOptionData(flag.type))
+            } as ApplicationCommandOptionData)
+        })
+
+        return options
+    }
+
+    /** Register the application commands globally or to the given guilds */
+    public registerApplicationCommands(client: Client, guildIds: string[] = undefined): Promise<void> {
+        let data = this.buildApplicationCommands()
+        if (!guildIds) {
+            return client.application.commands.set(data).then(_ => { })
+        }
+
+        return Promise.all(guildIds.map(id => client.application.commands.set(data, id))).then(_ => { })
+    }
+
+    /** Dispatch the given application command context through the middleware chain */
+    public dispatchInteraction(ctx: CommandContext): Promise<CommandResult> {
+        return this.runMiddleware(ctx, m => m.beforeParse ? m.beforeParse(ctx) : undefined)
+            .then(r => r ? r : this.dispatchInteractionParsed(ctx))
+            .then(r => this.runAfterResult(ctx, r))
+    }
+
+    // Resolve and execute the given context menu command context
+    private dispatchContextMenuParsed(ctx: CommandContext): Promise<CommandResult> {
+        try {
+            let interaction = ctx.interaction as ContextMenuCommandInteraction
+            let node = this.contextMenus.get(contextMenuKey(interaction.commandType, interaction.commandName))
+            if (!node) {
+                return completedPromise(ctx.fail(ctx.t("command.unknownContextMenu", { name: interaction.commandName })))
+            }
+
+            ctx.command = node
+            ctx.nodeStack.push(node)
+
+            // test node assertions
+            let failure = testAssertions(ctx, node.assertions)
+            if (failure) return completedPromise(failure)
+
+            // ask for prompted arguments
+            let prompted = node.children.find(n => needsPrompt(n))
+            if (prompted) {
+                return ctx.promise = this.promptMissing(ctx, prompted, node.executor)
+            }
+
+            if (node.executor) {
+                return ctx.promise = this.execute(ctx, node.executor)
+            }
+
+            return completedPromise(noExecutor(ctx))
+        } catch (e) {
+            // throw system error
+            return completedPromise(new UncaughtErrorResult(ctx, e, ctx.t("error.system", { error: e })))
+        }
+    }
+
+    // Resolve, parse and execute the given application command context
+    private async dispatchInteractionParsed(ctx: CommandContext): Promise<CommandResult> {
+        if (ctx.interaction.isContextMenuCommand())
+            return this.dispatchContextMenuParsed(ctx)
+
+        try {
+            let interaction = ctx.interaction as ChatInputCommandInteraction
+
+            // find command path
+            let key = applicationCommandPathKey(interaction.commandName, 
+                interaction.options.getSubcommandGroup(false), 
+                interaction.options.getSubcommand(false))
+            let path = this.applicationCommandPaths.get(key)
+            if (!path) {
+                return completedPromise(ctx.fail(ctx.t("command.unknown", { name: "/" + key })))
+            }
+
+            ctx.command = path[0]
+            let executor: (ctx: CommandContext) => Promise<CommandResult> = null // The executor to run at the end
+            let missing: CommandNode[] = []                                      // The prompted arguments without option
+
+            for (let node of path) {
+                ctx.nodeStack.push(node)
+
+                // test node assertions
+                let failure = testAssertions(ctx, node.assertions)
+                if (failure) return completedPromise(failure)
+
+                // parse argument value from the option
+                if (!node.literal) {
+                    ctx.registeredArgs.set(node.name, node)
+                    let option = interaction.options.get(toApplicationCommandName(node.name))
+                    if (option && (node.variadic || node.greedy)) {
+                        ctx.reader = new StringReader(String(option.value))
+                        let failure = await (node.greedy ? this.parseGreedy(ctx, node, false) : this.parseVariadic(ctx, node, false))
+                        if (failure) return failure
+                    } else if (option) {
+                        ctx.reader = new StringReader(String(option.value))
+                        let res = ctx.parse(node.argumentType)
+                        let err = toErrorResult(ctx, res)
+                        if (err) return completedPromise(err)
+                        ctx.argResult(node.name, res)
+                    } else if (needsPrompt(node)) {
+                        missing.push(node)
+                    }
+                }
+
+                // register set flags
+                node.flags.forEach(f => {
+                    ctx.registeredFlags.set(f.name, f)
+                    f.aliases.forEach(s => ctx.registeredFlags.set(s, f))
+                })
+
+                // check for executor
+                if (node.executor) {
+                    executor = node.executor
+                }
+            }
+
+            // parse flag values from the options
+            for (let flag of new Set(ctx.registeredFlags.values())) {
+                let option = interaction.options.get(toApplicationCommandName(flag.name))
+                if (!option)
+                    continue
+
+                // test flag assertions
+                let failure = testAssertions(ctx, flag.assertions)
+                if (failure) return completedPromise(failure)
+
+                if (flag.enumValues) {
+                    ctx.flagResult(flag.name, ctx.completedParse(flag.enumValues.get(String(option.value))))
+                } else if (flag.isSwitch) {
+                    if (option.value) ctx.flagResult(flag.name, ctx.completedParse(true))
+                } else {
+                    ctx.reader = new StringReader(String(option.value))
+                    let res = ctx.parse(flag.type)
+                    let err = toErrorResult(ctx, res)
+                    if (err) return completedPromise(err)
+                    ctx.flagResult(flag.name, res)
+                }
+            }
+
+            // ask for the missing prompted arguments
+            // and run the executor after all
+            // awaitables have completed
+            if (executor && missing.length > 0) {
+                return ctx.promise = this.promptArguments(ctx, missing)
+                    .then(failure => failure ? failure : ctx.awaitPromises().then(res => res.result ? res.result : this.execute(res.context, executor)))
+            }
+
+            // run the executor
+            // after all awaitables
+            // have completed
+            if (executor) {
+                return ctx.promise = ctx.awaitPromises().then(res => res.result ? res.result : this.execute(res.context, executor))
+            }
+
+            return completedPromise(noExecutor(ctx))
+        } catch (e) {
+            // throw system error
+            return completedPromise(new UncaughtErrorResult(ctx, e, ctx.t("error.system", { error: e })))
+        }
+    }
+
+    /** Get the suggestions for the given partial input of the argument node */
+    public suggest(ctx: CommandContext, node: CommandNode, input: string): Promise<string[]> {
+        try {
+            if (node.suggester)
+                return Promise.resolve(node.suggester(ctx, input))
+            if (node.argumentType && node.argumentType.suggest)
+                return Promise.resolve(node.argumentType.suggest(ctx, input))
+        } catch (e) {
+            return Promise.reject(e)
+        }
+
+        return completedPromise([])
+    }
+
+    /** Get the suggestions for the given partial input of any child of the node */
+    public suggestChildren(ctx: CommandContext, node: CommandNode, input: string): Promise<string[]> {
+        let literals = matchSuggestions(node.children.filter(n => n.literal).map(n => n.name), input)
+        return Promise.all(node.children.filter(n => !n.literal).map(n => this.suggest(ctx, n, input)))
+            .then(lists => [...literals, ...lists.flat()])
+    }
+
+    // Attach the usage of the current node and the suggestions once
+    // available to the failed result
+    private withHints(ctx: CommandContext, result: FailLikeResult, suggestions: Promise<string[]>): Promise<CommandResult> {
+        if (!(result instanceof FailResult))
+            return completedPromise(result)
+        result.usage(...usage(ctx.nodeStack, ctx.prefix))
+        return suggestions
+            .then(list => result.suggest(...list.filter(s => !result.suggestions.includes(s))))
+            .catch(_ => result)
+    }
+
+    // Fail with the candidates closest to the input between start and end
+    // as suggestions and as corrected inputs
+    private failWithMatches(ctx: CommandContext, message: string, candidates: Iterable<string>, start: number, end: number, display: (match: string) => string = m => m): FailResult {
+        let str = ctx.reader.str
+        let matches = closestMatches(candidates, str.substring(start, end))
+        return ctx.fail(message)
+            .suggest(...matches.map(display))
+            .correct(...matches.map(m => str.substring(0, start) + m + str.substring(end)))
+    }
+
+    // Fail for the unknown command at the readers position
+    private failUnknownCommand(ctx: CommandContext, commandName: string): FailResult {
+        let reader = ctx.reader
+        let start = reader.idx
+        let guildId = ctx.guild ? ctx.guild.map(g => g.id).orElse(undefined) : undefined
+
+        // after a mention only names are matched
+        let mention = this.matchMention(ctx, reader.str.substring(start))
+        let candidates: string[]
+        if (mention) {
+            start += mention.length
+            commandName = reader.str.substring(start).split(/\s/)[0]
+            candidates = [...this.commandsByName.keys()]
+        } else {
+            candidates = [...this.commandMap.entries()].flatMap(([key, node]) => node.prefix == this.standardPrefix ?
+                this.getPrefixes(guildId).map(p => p + key.substring(node.prefix.length)) :
+                [key])
+        }
+
+        return this.failWithMatches(ctx, ctx.t("command.unknown", { name: commandName }), candidates, start, start + commandName.length)
+    }
+
+    // Parse all flags at the readers position, returns the failure if any,
+    // lenient parsing stops at unknown flags instead of failing
+    private parseFlags(ctx: CommandContext, lenient: boolean = false): Promise<CommandResult> {
+        let reader = ctx.reader
+        const isEnd = (c: string) => isCharWhitespace(c) || c == EOS
+
+        // negative numbers and lone dashes are no flags
+        while (!ctx.flagsEnded && reader.current() == '-' && !isBase10Digit(reader.off(1)) && !isEnd(reader.off(1))) {
+            // -- ends flag parsing
+            if (reader.off(1) == '-' && isEnd(reader.off(2))) {
+                reader.next(2)
+                reader.skipWhitespace()
+                ctx.flagsEnded = true
+                break
+            }
+
+            let fi = reader.idx
+            let long = reader.off(1) == '-'
+            reader.next(long ? 2 : 1)
+            let ni = reader.idx
+            let name = reader.collect(c => !isEnd(c) && c != '=')
+            let hasValue = reader.current() == '='
+            if (hasValue) reader.next()
+
+            // resolve the flags, single dash
+            // switches may be combined
+            let flags: [string, CommandFlag][]
+            let single = ctx.registeredFlags.get(name)
+            if (lenient && !single && (long || [...name].some(c => !ctx.registeredFlags.has(c)))) {
+                reader.idx = fi
+                break
+            }
+
+            if (single || long) {
+                if (!single) {
+                    return completedPromise(this.failWithMatches(ctx, ctx.t("flag.unknown", { name: name }), ctx.registeredFlags.keys(), ni, ni + name.length, m => "--" + m))
+                }
+
+                flags = [[name, single]]
+            } else {
+                flags = [...name].map(c => [c, ctx.registeredFlags.get(c)])
+                if (flags.some(f => !f[1])) {
+                    return completedPromise(this.failWithMatches(ctx, ctx.t("flag.unknown", { name: name }), ctx.registeredFlags.keys(), ni, ni + name.length, m => "-" + m))
+                }
+            }
+
+            for (let i = 0; i < flags.length; i++) {
+                let [alias, flag] = flags[i]
+                let last = i == flags.length - 1
+
+                // test flag assertions
+                let failure = testAssertions(ctx, flag.assertions)
+                if (failure) return completedPromise(failure)
+
+                let value: ParseResult<any>
+                if (flag.isSwitch && !(last && hasValue)) {
+                    value = ctx.completedParse(flag.enumValues ? flag.enumValues.get(alias) : true)
+                } else if (flag.isSwitch) {
+                    // parse explicit switch value
+                    let ci = reader.idx
+                    let str = reader.collect(c => !isEnd(c))
+                    let v = flag.enumValues ? flag.enumValues.get(str) : SWITCH_VALUES.get(str.toLowerCase())
+                    if (v == undefined) {
+                        return completedPromise(new ParseErrorsResult(ctx, new ParseError(ctx.t("flag.invalidValue", { value: str, name: alias }), new StringLoc(reader, ci, reader.idx))))
+                    }
+
+                    value = ctx.completedParse(v)
+                } else {
+                    if (!last) {
+                        return completedPromise(ctx.fail(ctx.t("flag.notCombinable", { name: alias })))
+                    }
+
+                    // parse flag value
+                    if (!hasValue) reader.skipWhitespace()
+                    let res = ctx.parse(flag.type)
+                    let err = toErrorResult(ctx, res)
+                    if (err) return completedPromise(err)
+                    value = res
+                }
+
+                ctx.flagResult(flag.name, value)
+            }
+
+            reader.skipWhitespace()
+        }
+
+        return undefined
+    }
+
+    // Parse values of the variadic argument until one does not match
+    // and register them as an array, resolves to the failure if any
+    private async parseVariadic(ctx: CommandContext, node: CommandNode, withFlags: boolean): Promise<CommandResult> {
+        let reader = ctx.reader
+        let ci = reader.idx
+        let results: ParseResult<any>[] = []
+        let failed: ParseResult<any> = undefined
+        while (reader.current() != EOS) {
+            // any failure ends the list, asynchronous
+            // values are awaited to know where it ends
+            let vi = reader.idx
+            let res = ctx.parse(node.argumentType)
+            if (!res.isSync) await res.await()
+            if (res.uncaughtError) return toErrorResult(ctx, res)
+            if (res.error || reader.idx == vi) {
+                failed = res.error ? res : undefined
+                reader.idx = vi
+                break
+            }
+
+            results.push(res)
+            reader.skipWhitespace()
+            if (withFlags) {
+                let flagFailure = this.parseFlags(ctx)
+                if (flagFailure) return flagFailure
+            }
+        }
+
+        if (results.length < node.minCount) {
+            return failed ? toErrorResult(ctx, failed) : new ParseErrorsResult(ctx,
+                new ParseError(ctx.t(node.minCount == 1 ? "argument.tooFewValues.one" : "argument.tooFewValues.other", { min: node.minCount, name: node.name }), new StringLoc(reader, ci, reader.idx)))
+        }
+
+        ctx.argResult(node.name, combineResults(ctx, results))
+        return undefined
+    }
+
+    // Parse the remaining text with the type of the greedy argument,
+    // skipping the flags in between, returns the failure if any
+    private parseGreedy(ctx: CommandContext, node: CommandNode, withFlags: boolean): Promise<CommandResult> {
+        let reader = ctx.reader
+        let text = new StringBuilder()
+        while (reader.current() != EOS) {
+            if (withFlags) {
+                let flagFailure = this.parseFlags(ctx, true)
+                if (flagFailure) return flagFailure
+                if (reader.current() == EOS) break
+            }
+
+            text.append(reader.collect(UNTIL_WHITESPACE))
+            text.append(reader.collect(isCharWhitespace))
+        }
+
+        // parse the text on its own
+        ctx.reader = new StringReader(text.string().trimEnd())
+        let res = ctx.parse(node.argumentType)
+        ctx.reader = reader
+        let err = toErrorResult(ctx, res)
+        if (err) return completedPromise(err)
+        ctx.argResult(node.name, res)
+        return undefined
+    }
+
+    // Walk the chain of missing prompted arguments starting at the given
+    // node, ask for their values and run the deepest executor
+    private promptMissing(ctx: CommandContext, node: CommandNode, executor: (ctx: CommandContext) => Promise<CommandResult>): Promise<CommandResult> {
+        let nodes = collectPromptChain(node)
+        for (let node of nodes) {
+            if (ctx.nodeStack.at(-1) != node)
+                ctx.nodeStack.push(node)
+
+            // test node assertions
+            let failure = testAssertions(ctx, node.assertions)
+            if (failure) return completedPromise(failure)
+
+            node.flags.forEach(f => {
+                ctx.registeredFlags.set(f.name, f)
+                f.aliases.forEach(s => ctx.registeredFlags.set(s, f))
+            })
+
+            ctx.registeredArgs.set(node.name, node)
+            if (node.executor) {
+                executor = node.executor
+            }
+        }
+
+        if (!executor) {
+            return completedPromise(noExecutor(ctx))
+        }
+
+        return this.promptArguments(ctx, nodes)
+            .then(failure => failure ? failure : ctx.awaitPromises().then(res => res.result ? res.result : this.execute(res.context, executor)))
+    }
+
+    // Ask for the values of the given arguments, through a modal for
+    // interactions or chat messages otherwise, resolves to the failure if any
+    private async promptArguments(ctx: CommandContext, nodes: CommandNode[]): Promise<CommandResult> {
+        try {
+            if (ctx.interaction) {
+                return await this.promptModal(ctx, nodes)
+            }
+
+            for (let node of nodes) {
+                let failure = await this.promptChat(ctx, node)
+                if (failure) return failure
+            }
+
+            return undefined
+        } catch (e) {
+            return new UncaughtErrorResult(ctx, e, ctx.t("error.prompt", { error: e }))
+        }
+    }
+
+    // Ask for the value of the given argument in the chat
+    // until a valid answer is given
+    private async promptChat(ctx: CommandContext, node: CommandNode): Promise<CommandResult> {
+        // answers are replies to the command message
+        if (!ctx.message || !ctx.channel) {
+            return ctx.fail(ctx.t("prompt.unavailable", { name: node.name }))
+        }
+
+        let prompt = node.prompt
+        let error: string = undefined
+        for (let attempt = 0; attempt < prompt.attempts; attempt++) {
+            await ctx.message.reply((error ? "`❌` " + error + "\n" : "") + ctx.t("prompt.question", { label: prompt.label }))
+            let answer = (await ctx.channel.awaitMessages({ filter: m => m.author.id == ctx.author.id, max: 1, time: prompt.timeout })).first()
+            if (!answer) {
+                return ctx.fail(ctx.t("prompt.timeout", { name: node.name }))
+            }
+
+            if (answer.content.trim().toLowerCase() == "cancel") {
+                return ctx.fail(ctx.t("prompt.cancelled"))
+            }
+
+            error = await this.parseAnswer(ctx, node, answer.content)
+            if (!error) {
+                return undefined
+            }
+        }
+
+        return ctx.fail(ctx.t("prompt.tooManyInvalid", { name: node.name, error: error }))
+    }
+
+    // Ask for the values of the given arguments with a modal, offering
+    // to reopen it with the valid answers kept until all are valid
+    private async promptModal(ctx: CommandContext, nodes: CommandNode[]): Promise<CommandResult> {
+        if (nodes.length > 5) {
+            return ctx.fail(ctx.t("prompt.tooManyArguments", { max: 5 }))
+        }
+
+        let customId = PROMPT_MODAL_PREFIX + ctx.interaction.id
+        let attempts = Math.max(...nodes.map(n => n.prompt.attempts))
+        let timeout = Math.max(...nodes.map(n => n.prompt.timeout))
+        let answers: Map<string, string> = new Map()
+        if (!ctx.promptSubmit) {
+            // the modal has to be the first response
+            if (ctx.interaction.deferred || ctx.interaction.replied) {
+                return ctx.fail(ctx.t("prompt.unavailable", { name: nodes[0].name }))
+            }
+
+            ctx.promptSubmit = showPromptModal(ctx.interaction, customId, ctx.command, nodes, answers)
+        }
+
+        let submit: ModalSubmitInteraction = undefined
+        let retry: ButtonInteraction = undefined
+        for (let attempt = 0; attempt < attempts; attempt++) {
+            let previous = submit
+            submit = await (retry ? showPromptModal(retry, customId, ctx.command, nodes, answers) : ctx.promptSubmit)
+            if (!submit) {
+                // replace the retry message if any,
+                // otherwise the modal is followed up
+                ctx.modalSubmit = previous
+                return ctx.fail(ctx.t("prompt.modalTimeout"))
+            }
+
+            let errors: string[] = []
+            for (let node of nodes) {
+                let answer = submit.fields.getTextInputValue(node.name)
+                let error = await this.parseAnswer(ctx, node, answer)
+                if (error) errors.push("`" + node.name + "`: " + error)
+                else answers.set(node.name, answer)
+            }
+
+            if (errors.length == 0 || attempt == attempts - 1) {
+                await submit.deferReply()
+                ctx.modalSubmit = submit
+                return errors.length == 0 ? undefined : ctx.fail(ctx.t("prompt.tooManyInvalidAll", { errors: errors.join(", ") }))
+            }
+
+            // offer to reopen the modal
+            let reply = await submit.reply({
+                content: "`❌` " + errors.join("\n"),
+                ephemeral: true,
+                fetchReply: true,
+                components: [{
+                    type: ComponentType.ActionRow,
+                    components: [{ type: ComponentType.Button, customId: customId + ":retry", label: ctx.t("prompt.retry"), style: ButtonStyle.Primary }]
+                }]
+            })
+
+            retry = await reply.awaitMessageComponent({ componentType: ComponentType.Button, time: timeout }).catch(_ => undefined)
+            if (!retry) {
+                // replace the retry message
+                ctx.modalSubmit = submit
+                return ctx.fail(ctx.t("prompt.modalTimeout"))
+            }
+        }
+    }
+
+    // Parse the answer to a prompt as the value of the given
+    // argument, resolves to the error message if it is invalid
+    private async parseAnswer(ctx: CommandContext, node: CommandNode, answer: string): Promise<string> {
+        let reader = ctx.reader
+        let pending = ctx.awaitableResults.length
+        ctx.reader = new StringReader(answer.trim())
+        try {
+            let res: ParseResult<any>
+            if (node.variadic || node.greedy) {
+                let failure = await (node.greedy ? this.parseGreedy(ctx, node, false) : this.parseVariadic(ctx, node, false))
+                if (failure) {
+                    return failure instanceof FailResult ? failure.message : ctx.t("argument.invalid")
                 }
+
+                res = ctx.argResults.get(node.name)
             } else {
-                if (it == null || !it.literal) {
-                    it = node
+                res = ctx.parse(node.argumentType)
+                ctx.reader.skipWhitespace()
+                if (!res.error && ctx.reader.current() != EOS) {
+                    return ctx.t("argument.unexpected", { text: ctx.reader.str.substring(ctx.reader.idx) })
                 }
+
+                ctx.argResult(node.name, res)
+            }
+
+            // drop the awaitables of invalid answers
+            res = await res.await()
+            if (res.error || res.uncaughtError) {
+                ctx.awaitableResults.length = pending
+                return res.error ? ctx.errorText(res.error) : ctx.t("error.parsing", { error: res.uncaughtError })
             }
+
+            return undefined
+        } finally {
+            ctx.reader = reader
         }
+    }
 
-        if (!it) {
-            reader.restore()
-        } else {
-            reader.skipWhitespace()
+    // Select the next node to be handled
+    private findNext(ctx: CommandContext, currentNode: CommandNode): CommandNode {
+        let it: CommandNode = null // The selected node
+
+        let reader = ctx.reader
+        reader.pushIndex()
+        let s = reader.collect(UNTIL_WHITESPACE)
+
+        let children = currentNode.children
+        for (let i = 0; i < children.length; i++) {
+            let node = children[i]
+
+            // check for literal by name or alias
+            if (node.literal) {
+                if (s == node.name || node.aliases.includes(s)) {
+                    it = node
+                    break
+                }
+            } else {
+                if (it == null || !it.literal) {
+                    it = node
+                }
+            }
         }
 
+        // the selected node parses
+        // its own input
+        reader.restore()
         return it
     }
 
@@ -866,27 +2614,163 @@ export class CommandDispatcher {
     async onMessageSent(msg: Message) {
         msg = await msg.fetch()
 
-        // check for prefix
-        let startsWith = false
-        this.prefixes.forEach(p => {
-            startsWith ||= msg.content.startsWith(p)
-        })
+        // create command context
+        let ctx = new CommandContext()
+        ctx.reader = new StringReader(msg.content)
+        ctx.setMessage(msg)
 
-        if (!startsWith)
+        // check for prefix
+        if (!this.hasPrefix(ctx, msg.content))
             return
 
         // timing //
         let t1 = Date.now()
 
+        // dispatch command and return
+        // any eventual results to the user
+        this.dispatch(ctx).then(r => {
+            this.trackReply(msg, r, r.handleDefault())
+
+            // timing //
+            let t2 = Date.now()
+            let t  = t2 - t1
+
+            // logging //
+            if (ctx.command && this.logCommands) {
+                logger.info("{0} ran command {1} in {2}", 
+                    msg.author.username, 
+                    ctx.command.prefix + ctx.command.name, 
+                    epochTimeToSMS(t))
+            }  
+        }).catch(e => logger.error("Error while dispatching message {0}: {1}", msg.id, e))
+    }
+
+    // Remember the reply sent for the given command message
+    private trackReply(msg: Message, result: CommandResult, reply: Promise<Message>) {
+        if (!this.replyWindow)
+            return
+
+        let tracked: TrackedReply = { reply: undefined, result: result, content: msg.content, time: msg.createdTimestamp }
+        this.trackedReplies.set(msg.id, tracked)
+        reply.then(m => tracked.reply = m).catch(_ => { })
+
+        // sweep expired replies
+        let now = Date.now()
+        this.trackedReplies.forEach((t, id) => t.time + this.replyWindow < now ? this.trackedReplies.delete(id) : { })
+    }
+
+    // Get the tracked reply for the given command message if still within the window
+    private getTrackedReply(msgId: string): TrackedReply {
+        let tracked = this.trackedReplies.get(msgId)
+        if (!tracked || tracked.time + this.replyWindow < Date.now())
+            return undefined
+        return tracked
+    }
+
+    //
+    // Message Update Handler
+    //
+    async onMessageUpdate(oldMsg: Message | PartialMessage, newMsg: Message | PartialMessage) {
+        if (!this.replyWindow || (!oldMsg.partial && !newMsg.partial && oldMsg.content == newMsg.content))
+            return
+        if (newMsg.createdTimestamp + this.replyWindow < Date.now())
+            return
+
+        let msg = await newMsg.fetch()
+        if (msg.author.bot)
+            return
+
+        // partial messages have no content to compare, like on
+        // link embeds, so compare with what the reply was for
+        let tracked = this.getTrackedReply(msg.id)
+        if (tracked && tracked.content == msg.content)
+            return
+
         // create command context
         let ctx = new CommandContext()
         ctx.reader = new StringReader(msg.content)
         ctx.setMessage(msg)
 
-        // dispatch command and return
-        // any eventual results to the user
-        let resultPromise = this.dispatch(ctx)
-        resultPromise.then(r => {
+        // remove the old reply if it is no
+        // command anymore
+        if (!this.hasPrefix(ctx, msg.content)) {
+            if (tracked) {
+                this.trackedReplies.delete(msg.id)
+                tracked.result.dispose()
+                if (tracked.reply) tracked.reply.delete().catch(_ => { })
+            }
+
+            return
+        }
+
+        // dispatch the edited command and
+        // replace the old reply with the result
+        this.dispatch(ctx).then(r => {
+            if (tracked) {
+                tracked.result.dispose()
+                if (tracked.reply) r.messageOptions({ ...r.msgOptions, editMessage: tracked.reply })
+            }
+
+            this.trackReply(msg, r, r.handleDefault())
+
+            // logging //
+            if (ctx.command && this.logCommands) {
+                logger.info("{0} reran edited command {1}", 
+                    msg.author.username, 
+                    ctx.command.prefix + ctx.command.name)
+            }
+        }).catch(e => logger.error("Error while dispatching edited message {0}: {1}", msg.id, e))
+    }
+
+    //
+    // Message Delete Handler
+    //
+    async onMessageDelete(msg: Message | PartialMessage) {
+        let tracked = this.getTrackedReply(msg.id)
+        if (!tracked)
+            return
+
+        this.trackedReplies.delete(msg.id)
+        tracked.result.dispose()
+        if (tracked.reply) tracked.reply.delete().catch(_ => { })
+    }
+
+    //
+    // Interaction Create Handler
+    //
+    async onInteractionCreate(interaction: Interaction) {
+        if (interaction.isAutocomplete())
+            return this.onAutocomplete(interaction)
+        if (interaction.isButton() && interaction.customId.startsWith(RERUN_BUTTON_PREFIX))
+            return this.onRerunButton(interaction)
+        if (!interaction.isChatInputCommand() && !interaction.isContextMenuCommand())
+            return
+
+        // timing //
+        let t1 = Date.now()
+
+        // create command context
+        let ctx = new CommandContext()
+        ctx.setInteraction(interaction)
+
+        // show the prompt modal right away, it has to be the
+        // first response which middleware could otherwise delay
+        let [command, prompted] = this.findMissingPrompts(interaction)
+        if (prompted.length > 0 && prompted.length <= 5) {
+            ctx.promptSubmit = showPromptModal(interaction, PROMPT_MODAL_PREFIX + interaction.id, command, prompted, new Map())
+            ctx.promptSubmit.catch(e => logger.error("Failed to show the prompt modal for {0}: {1}", "/" + interaction.commandName, e))
+        } else {
+            // expired or already acknowledged
+            // interactions can not be answered
+            let deferred = await interaction.deferReply().then(_ => true)
+                .catch(e => logger.error("Failed to defer the response to {0}: {1}", "/" + interaction.commandName, e))
+            if (!deferred)
+                return
+        }
+
+        // dispatch command and respond
+        // with the result
+        this.dispatchInteraction(ctx).then(r => {
             r.handleDefault()
 
             // timing //
@@ -895,18 +2779,105 @@ export class CommandDispatcher {
 
             // logging //
             if (ctx.command && this.logCommands) {
-                logger.info("{0} ran command {1} in {2}", 
-                    msg.author.username, 
-                    ctx.command.prefix + ctx.command.name, 
+                logger.info("{0} ran application command {1} in {2}", 
+                    interaction.user.username, 
+                    "/" + interaction.commandName, 
                     epochTimeToSMS(t))
             }  
-        })
+        }).catch(e => logger.error("Error while dispatching application command {0}: {1}", "/" + interaction.commandName, e))
+    }
+
+    // Find the command and the prompted arguments without option of the
+    // given interaction, the ones the prompt modal will ask for
+    private findMissingPrompts(interaction: ChatInputCommandInteraction | ContextMenuCommandInteraction): [CommandNode, CommandNode[]] {
+        if (interaction.isContextMenuCommand()) {
+            let node = this.contextMenus.get(contextMenuKey(interaction.commandType, interaction.commandName))
+            return node ? [node, collectPromptChain(node.children.find(n => needsPrompt(n)))] : [undefined, []]
+        }
+
+        let path = this.applicationCommandPaths.get(applicationCommandPathKey(interaction.commandName,
+            interaction.options.getSubcommandGroup(false),
+            interaction.options.getSubcommand(false)))
+        return path ? [path[0], path.filter(n => needsPrompt(n) && !interaction.options.get(toApplicationCommandName(n.name)))] : [undefined, []]
+    }
+
+    //
+    // Rerun Button Handler
+    //
+    async onRerunButton(interaction: ButtonInteraction) {
+        let data = interaction.customId.substring(RERUN_BUTTON_PREFIX.length)
+        let userId = data.substring(0, data.indexOf(':'))
+        let content = data.substring(data.indexOf(':') + 1)
+
+        // create command context
+        let ctx = new CommandContext()
+        ctx.reader = new StringReader(content)
+        ctx.setInteraction(interaction)
+
+        if (interaction.user.id != userId) {
+            return interaction.reply({ content: ctx.t("command.rerunNotAuthor"), ephemeral: true })
+        }
+
+        let deferred = await interaction.deferUpdate().then(_ => true)
+            .catch(e => logger.error("Failed to defer the rerun of {0}: {1}", content, e))
+        if (!deferred)
+            return
+
+        // dispatch the corrected command and
+        // replace the failure message with the result
+        this.dispatch(ctx).then(r => {
+            r.messageOptions({ ...r.msgOptions, editMessage: interaction.message })
+            r.handleDefault()
+
+            // logging //
+            if (ctx.command && this.logCommands) {
+                logger.info("{0} reran command {1}", 
+                    interaction.user.username, 
+                    ctx.command.prefix + ctx.command.name)
+            }
+        }).catch(e => logger.error("Error while dispatching rerun of {0}: {1}", content, e))
+    }
+
+    //
+    // Autocomplete Handler
+    //
+    async onAutocomplete(interaction: AutocompleteInteraction) {
+        let key = applicationCommandPathKey(interaction.commandName, 
+            interaction.options.getSubcommandGroup(false), 
+            interaction.options.getSubcommand(false))
+        let path = this.applicationCommandPaths.get(key)
+        if (!path)
+            return interaction.respond([])
+
+        let ctx = new CommandContext()
+        ctx.setInteraction(interaction)
+        ctx.command = path[0]
+        ctx.nodeStack.push(...path)
+
+        // find the focused argument or flag
+        let focused = interaction.options.getFocused(true)
+        let node = path.find(n => !n.literal && toApplicationCommandName(n.name) == focused.name)
+        let flag = path.flatMap(n => n.flags).find(f => toApplicationCommandName(f.name) == focused.name)
+
+        let suggestions: Promise<string[]> = completedPromise([])
+        if (node) {
+            suggestions = this.suggest(ctx, node, String(focused.value))
+        } else if (flag && flag.type && flag.type.suggest) {
+            suggestions = Promise.resolve(flag.type.suggest(ctx, String(focused.value)))
+        }
+
+        return suggestions
+            .then(list => interaction.respond(list.slice(0, 25).map(s => ({ 
+                name: truncate(s, 100), 
+                value: focused.type == ApplicationCommandOptionType.String ? s : parseFloat(s) 
+            }))))
+            .catch(e => logger.error("Error while autocompleting {0}: {1}", "/" + key, e))
     }
 }
 
 /* ----------------------------------------------- */
 
-let logger: Logger
+let logger: Logger = new Logger("CommandService")
 
 @autoRegister()
 export class CommandService extends BotService {
@@ -915,6 +2886,9 @@ export class CommandService extends BotService {
     @dependency(PermissionManager)
     permissionManager: PermissionManager
 
+    @dependency(Client, InjectStage.Ready)
+    client: Client
+
     // The global command dispatcher
     @provides(CommandDispatcher)
     globalDispatcher: CommandDispatcher
@@ -927,11 +2901,67 @@ export class CommandService extends BotService {
     onLoad(manager: ServiceManager): void {
         this.globalDispatcher = new CommandDispatcher()
         this.globalDispatcher.standardPrefix = "?"
+
+        this.logger.info("Loading persistent guild prefix data")
+        this.globalDispatcher.guildPrefixes.dataIO = fileJsonIO("command-service/prefixes.json")
+        this.globalDispatcher.guildPrefixes.loadAllPersistentData()
+
+        this.logger.info("Loading persistent guild command policy data")
+        this.globalDispatcher.guildPolicies.dataIO = fileJsonIO("command-service/policies.json")
+        this.globalDispatcher.guildPolicies.loadAllPersistentData()
+
+        this.logger.info("Loading persistent guild command alias data")
+        this.globalDispatcher.guildAliases.dataIO = fileJsonIO("command-service/aliases.json")
+        this.globalDispatcher.guildAliases.loadAllPersistentData()
+
+        // register declared commands once
+        // all modules have been loaded
+        manager.once('load', _ => {
+            manager.allModules().forEach(m => registerCommands(m, this.globalDispatcher))
+        })
+    }
+
+    @eventHandler("saveData")
+    async save(p: any) {
+        if (p.reason != 'autosave-interval') {
+            this.logger.info("Saving persistent guild prefix, command policy and alias data")
+        }
+
+        this.globalDispatcher.guildPrefixes.saveAllPersistentData()
+        this.globalDispatcher.guildPolicies.saveAllPersistentData()
+        this.globalDispatcher.guildAliases.saveAllPersistentData()
+    }
+
+    onReady(manager: ServiceManager): void {
+        // fetch the application to know the bot owners
+        this.client.application.fetch()
+            .catch(e => this.logger.error("Failed to fetch the application: {0}", e))
+
+        if (this.globalDispatcher.registerApplicationCommandsOnReady) {
+            this.globalDispatcher.registerApplicationCommands(this.client, this.globalDispatcher.applicationCommandGuilds)
+                .then(_ => this.logger.info("Registered application commands"))
+                .catch(e => this.logger.error("Failed to register application commands: {0}", e))
+        }
+    }
+
+    @discordEventHandler(Events.MessageCreate)
+    private async onMessageSent(msg: Message) {
+        return this.globalDispatcher.onMessageSent(msg)
+    }
+
+    @discordEventHandler(Events.MessageUpdate)
+    private async onMessageUpdate(oldMsg: Message | PartialMessage, newMsg: Message | PartialMessage) {
+        return this.globalDispatcher.onMessageUpdate(oldMsg, newMsg)
+    }
+
+    @discordEventHandler(Events.MessageDelete)
+    private async onMessageDelete(msg: Message | PartialMessage) {
+        return this.globalDispatcher.onMessageDelete(msg)
     }
 
-    @discordEventHandler(Events.MessageCreate)
-    private async onMessageSent(msg: Message) {
-        return this.globalDispatcher.onMessageSent(msg)
+    @discordEventHandler(Events.InteractionCreate)
+    private async onInteractionCreate(interaction: Interaction) {
+        return this.globalDispatcher.onInteractionCreate(interaction)
     }
 }
 
@@ -948,11 +2978,194 @@ export class CodeBlock {
     text: string // The content of the code block
 }
 
+/** A custom or unicode emoji parsed from a command */
+export class ParsedEmoji {
+    id: string        // The ID of the custom emoji, null for unicode emoji
+    name: string      // The name of the custom emoji or the unicode emoji itself
+    animated: boolean // Whether the custom emoji is animated
+
+    constructor(id: string, name: string, animated: boolean) {
+        this.id = id
+        this.name = name
+        this.animated = animated
+    }
+
+    /** Get the form used to send or react with this emoji */
+    toString(): string {
+        return this.id ? "<" + (this.animated ? "a" : "") + ":" + this.name + ":" + this.id + ">" : this.name
+    }
+}
+
+// Get the ID from the given mention matching the pattern or raw ID
+function mentionOrId(str: string, pattern: RegExp): string {
+    if (/^\d+$/.test(str))
+        return str
+    let match = str.match(pattern)
+    return match ? match[1] : undefined
+}
+
+// Validate the result of the parser once available,
+// the validator returns the error if the value is invalid
+function validateParse<T>(ctx: CommandContext, parser: Parser<T>, validate: (value: T, loc: StringLoc) => ParseError): ParseResult<T> {
+    let ci = ctx.reader.idx
+    let res = ctx.parse(parser)
+    const check = (r: ParseResult<T>) => {
+        if (r.error || r.uncaughtError)
+            return r
+        let err = validate(r.value, new StringLoc(ctx.reader, ci, ctx.reader.idx))
+        return err ? ctx.failedParse(err) : r
+    }
+
+    return res.isSync ? check(res) : ParseResult.fromPromise(res.await().then(check))
+}
+
+// Create a number parser with the given inclusive bounds
+function boundedNumber(parser: Parser<number>, type: ApplicationCommandOptionType, min: number, max: number): Parser<number> {
+    return applicationOptionType(syncArgumentParser<number>(ctx => validateParse(ctx, parser, (num, loc) => {
+        if ((min != undefined && num < min) || (max != undefined && num > max)) {
+            let key = min == undefined ? "parse.numberAtMost" :
+                max == undefined ? "parse.numberAtLeast" :
+                "parse.numberBetween"
+            return new ParseError(ctx.t(key, { min: min, max: max, input: num }), loc)
+        }
+
+        return undefined
+    })), type, { minValue: min, maxValue: max })
+}
+
+// Get the readable name of the channel type
+function channelTypeName(type: ChannelType): string {
+    return ChannelType[type].replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase()
+}
+
+const UNICODE_EMOJI_PATTERN = /^(\p{Extended_Pictographic}|\p{Regional_Indicator}|[#*0-9]\uFE0F?\u20E3)/u
+const MESSAGE_LINK_PATTERN = /^https?:\/\/(?:(?:ptb|canary)\.)?discord(?:app)?\.com\/channels\/(\d+|@me)\/(\d+)\/(\d+)$/
+const TIME_OF_DAY_PATTERN = /^(\d{1,2})(?::(\d{2}))?(?::(\d{2}))?(am|pm)?$/i
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"]
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Try to read a time of day like `5pm`, `5:30pm` or `17:00`,
+// leaves the reader untouched if there is none
+function readTimeOfDay(reader: StringReader): number[] {
+    reader.pushIndex()
+    let str = reader.collect(UNTIL_WHITESPACE).toLowerCase()
+    if (str == "noon" || str == "midnight") {
+        reader.popIndex()
+        return [str == "noon" ? 12 : 0, 0, 0]
+    }
+
+    // a lone number is no time of day
+    let match = str.match(TIME_OF_DAY_PATTERN)
+    if (!match || (!match[2] && !match[4])) {
+        reader.restore()
+        return undefined
+    }
+
+    let h = parseInt(match[1])
+    let m = match[2] ? parseInt(match[2]) : 0
+    let s = match[3] ? parseInt(match[3]) : 0
+    if (match[4]) {
+        if (h < 1 || h > 12) {
+            reader.restore()
+            return undefined
+        }
+
+        h = h % 12 + (match[4].toLowerCase() == "pm" ? 12 : 0)
+    }
+
+    if (h > 23 || m > 59 || s > 59) {
+        reader.restore()
+        return undefined
+    }
+
+    reader.popIndex()
+    return [h, m, s]
+}
+
+// Try to read a time of day after whitespace
+// and apply it to the given date
+function readDateTime(reader: StringReader, date: Date): Date {
+    reader.pushIndex()
+    reader.skipWhitespace()
+    let time = readTimeOfDay(reader)
+    if (!time) {
+        reader.restore()
+        return date
+    }
+
+    reader.popIndex()
+    date.setHours(time[0], time[1], time[2], 0)
+    return date
+}
+
 /** More parsers */
 export class Parsers extends ParsersBase {
-    public static readonly DiscordUser: Parser<User> = asyncArgumentParser(ctx => {
+    /** Parses one of the given choices, mapping names to values, also exported as application command choices */
+    public static Choice<T = string>(choices: { [name: string]: T } | string[], ignoreCase: boolean = true): Parser<T> {
+        let map = new Map<string, T>(Array.isArray(choices) ?
+            choices.map(c => [c, c as unknown as T]) :
+            Object.entries(choices))
+        let names = [...map.keys()]
+        const key = (name: string) => ignoreCase ? name.toLowerCase() : name
+
+        return applicationOptionType(withSuggestions(syncArgumentParser<T>(ctx => {
+            let reader = ctx.reader
+            let ci = reader.idx
+            let str = reader.collectString()
+            let name = names.find(n => key(n) == key(str))
+            if (name == undefined) {
+                return ctx.failedParse(new ParseError(ctx.t("parse.choice", { choices: names.map(n => "`" + n + "`").join(", "), input: str }), new StringLoc(reader, ci, reader.idx)))
+            }
+
+            return ctx.completedParse(map.get(name))
+        }, value => names.find(n => map.get(n) === value)), (ctx, input) => matchSuggestions(names, input)),
+        ApplicationCommandOptionType.String, names.length <= 25 ? {
+            choices: names.map(n => ({ name: n, value: n })),
+            autocomplete: false
+        } : { })
+    }
+
+    /** Parses a string fully matching the given pattern, the format is shown on failure */
+    public static Regex(pattern: RegExp, format: string = pattern.source): Parser<string> {
+        return syncArgumentParser<string>(ctx => {
+            let reader = ctx.reader
+            let ci = reader.idx
+            let str = reader.collectString()
+            let match = str.match(pattern)
+            if (!match || match[0] != str) {
+                return ctx.failedParse(new ParseError(ctx.t("parse.format", { input: str, format: format }), new StringLoc(reader, ci, reader.idx)))
+            }
+
+            return ctx.completedParse(str)
+        })
+    }
+
+    /** Parses a number in the given inclusive bounds, undefined bounds are open */
+    public static BoundedNumber(min: number = undefined, max: number = undefined): Parser<number> {
+        return boundedNumber(ParsersBase.Number, ApplicationCommandOptionType.Number, min, max)
+    }
+
+    /** Parses a whole number in the given inclusive bounds, undefined bounds are open */
+    public static BoundedInteger(min: number = undefined, max: number = undefined): Parser<number> {
+        return boundedNumber(ParsersBase.Integer, ApplicationCommandOptionType.Integer, min, max)
+    }
+
+    /** Parses a string with the given inclusive length limits using the given string parser */
+    public static BoundedString(minLength: number = 0, maxLength: number = undefined, parser: Parser<string> = ParsersBase.String): Parser<string> {
+        return applicationOptionType(syncArgumentParser<string>(ctx => validateParse(ctx, parser, (str, loc) => {
+            if (str.length < minLength)
+                return new ParseError(ctx.t("parse.tooShort", { min: minLength, length: str.length }), loc)
+            if (maxLength != undefined && str.length > maxLength)
+                return new ParseError(ctx.t("parse.tooLong", { max: maxLength, length: str.length }), loc)
+            return undefined
+        }), v => parser.emit(v)), ApplicationCommandOptionType.String, { minLength: minLength, maxLength: maxLength })
+    }
+
+    public static readonly DiscordUser: Parser<User> = withSuggestions(asyncArgumentParser(ctx => {
         let ci = ctx.reader.idx
-        let str = ctx.reader.collect(c => (c >= '0' && c <= '9') || (c >= 'a' && c <= 'z') || (c >= 'A' && c <= 'Z'))
+        let mention = ctx.reader.str.substring(ci).match(/^<@!?(\d+)>/)
+        if (mention) ctx.reader.next(mention[0].length)
+        let str = mention ? mention[1] : ctx.reader.collect(c => (c >= '0' && c <= '9') || (c >= 'a' && c <= 'z') || (c >= 'A' && c <= 'Z'))
         let user: User
 
         // check special strings
@@ -972,7 +3185,8 @@ export class Parsers extends ParsersBase {
             }
             
             // fetch user
-            return ctx.client.users.fetch(str).then(v => ctx.completedParse(v))
+            const unknown = () => ctx.failedParse(new ParseError(ctx.t("parse.userId", { id: str }), new StringLoc(ctx.reader, ci, ctx.reader.idx)))
+            return ctx.client.users.fetch(str).then(v => v ? ctx.completedParse(v) : unknown(), _ => unknown())
         }
 
         // try username
@@ -981,16 +3195,23 @@ export class Parsers extends ParsersBase {
             return ctx.completedParse(user)
         }
         
-        return ctx.failedParse(new ParseError("No user by `" + str + "`", new StringLoc(ctx.reader, ci, ctx.reader.idx)))
+        return ctx.failedParse(new ParseError(ctx.t("parse.user", { input: str }), new StringLoc(ctx.reader, ci, ctx.reader.idx)))
+    }), (ctx: CommandContext, input) => {
+        let names = ctx.guild.isPresent() ?
+            ctx.guild.get().members.cache.map(m => m.user.username) :
+            ctx.client.users.cache.map(u => u.username)
+        return matchSuggestions(["me", ...names], input)
     })
 
-    public static readonly DiscordMember: Parser<GuildMember> = asyncArgumentParser(ctx => {
+    public static readonly DiscordMember: Parser<GuildMember> = withSuggestions(asyncArgumentParser(ctx => {
         let ci = ctx.reader.idx
         if (!ctx.guild.isPresent())
-            return ctx.failedParse(new ParseError("Can not parse member ID outside guild context", new StringLoc(ctx.reader, ci, ci)))
+            return ctx.failedParse(new ParseError(ctx.t("parse.memberOutsideGuild"), new StringLoc(ctx.reader, ci, ci)))
 
-        // check for user
-        return this.DiscordUser.parse(ctx).use(res => {
+        // check for user, stays synchronous
+        // while the user and member are cached
+        let userResult = this.DiscordUser.parse(ctx)
+        const resolveMember = (res: ParseResult<User>) => {
             let user = res.value
 
             // try cache
@@ -1002,10 +3223,305 @@ export class Parsers extends ParsersBase {
             // try fetch
             return ctx.guild.get().members.fetch(user.id).then(member => member ? 
                 ctx.completedParse(member) :
-                ctx.failedParse(new ParseError("No member for user `" + user.id + "`", new StringLoc(ctx.reader, ci, ctx.reader.idx))))
-        })
+                ctx.failedParse(new ParseError(ctx.t("parse.member", { id: user.id }), new StringLoc(ctx.reader, ci, ctx.reader.idx))))
+        }
+
+        if (userResult.isSync)
+            return userResult.error || userResult.uncaughtError ? userResult as ParseResult<any> : resolveMember(userResult)
+        return userResult.use(resolveMember)
+    }), (ctx: CommandContext, input) => {
+        if (!ctx.guild.isPresent())
+            return []
+        return matchSuggestions(["me", ...ctx.guild.get().members.cache.map(m => m.user.username)], input)
+    })
+
+    public static readonly DiscordRole: Parser<Role> = withSuggestions(asyncArgumentParser(ctx => {
+        let reader = ctx.reader
+        let ci = reader.idx
+        if (!ctx.guild.isPresent())
+            return ctx.failedParse(new ParseError(ctx.t("parse.roleOutsideGuild"), new StringLoc(reader, ci, ci)))
+
+        let guild = ctx.guild.get()
+        let str = reader.collectString()
+
+        // try mention or id
+        let id = mentionOrId(str, /^<@&(\d+)>$/)
+        if (id) {
+            let role = guild.roles.cache.get(id)
+            if (role) {
+                return ctx.completedParse(role)
+            }
+
+            return guild.roles.fetch(id).then(role => role ?
+                ctx.completedParse(role) :
+                ctx.failedParse(new ParseError(ctx.t("parse.roleId", { id: id }), new StringLoc(reader, ci, reader.idx))))
+        }
+
+        // try name
+        let name = str.toLowerCase()
+        let role = guild.roles.cache.find(r => r.name.toLowerCase() == name) ||
+            guild.roles.cache.find(r => "@" + r.name.toLowerCase() == name)
+        if (role) {
+            return ctx.completedParse(role)
+        }
+
+        return ctx.failedParse(new ParseError(ctx.t("parse.role", { input: str }), new StringLoc(reader, ci, reader.idx)))
+    }, role => role.toString()), (ctx: CommandContext, input) => {
+        if (!ctx.guild.isPresent())
+            return []
+        return matchSuggestions(ctx.guild.get().roles.cache.map(r => r.name), input)
+    })
+
+    /** Parses a channel of the given types in the current guild, any type if none are given */
+    public static DiscordChannel<C extends GuildBasedChannel = GuildBasedChannel>(...types: ChannelType[]): Parser<C> {
+        return applicationOptionType(withSuggestions(asyncArgumentParser<C>(ctx => {
+            let reader = ctx.reader
+            let ci = reader.idx
+            if (!ctx.guild.isPresent())
+                return ctx.failedParse(new ParseError(ctx.t("parse.channelOutsideGuild"), new StringLoc(reader, ci, ci)))
+
+            let guild = ctx.guild.get()
+            let str = reader.collectString()
+
+            // check the type of the found channel
+            const check = (channel: GuildBasedChannel) => {
+                if (!channel)
+                    return ctx.failedParse(new ParseError(ctx.t("parse.channel", { input: str }), new StringLoc(reader, ci, reader.idx)))
+                if (types.length > 0 && !types.includes(channel.type))
+                    return ctx.failedParse(new ParseError(ctx.t("parse.channelType", { name: channel.name, types: types.map(channelTypeName).join(" or ") }), new StringLoc(reader, ci, reader.idx)))
+                return ctx.completedParse(channel as C)
+            }
+
+            // try mention or id
+            let id = mentionOrId(str, /^<#(\d+)>$/)
+            if (id) {
+                let channel = guild.channels.cache.get(id)
+                return channel ? check(channel) : guild.channels.fetch(id).then(check, _ => check(undefined))
+            }
+
+            // try name, prefer channels of the right type
+            let name = (str.startsWith("#") ? str.substring(1) : str).toLowerCase()
+            let channels = guild.channels.cache.filter(c => c.name.toLowerCase() == name)
+            return check(channels.find(c => types.length == 0 || types.includes(c.type)) || channels.first())
+        }, channel => channel.toString()), (ctx: CommandContext, input) => {
+            if (!ctx.guild.isPresent())
+                return []
+            return matchSuggestions(ctx.guild.get().channels.cache
+                .filter(c => types.length == 0 || types.includes(c.type))
+                .map(c => c.name), input.startsWith("#") ? input.substring(1) : input)
+        }), ApplicationCommandOptionType.Channel, types.length > 0 ? { channelTypes: types } : { })
+    }
+
+    public static readonly DiscordTextChannel: Parser<TextChannel> = this.DiscordChannel<TextChannel>(ChannelType.GuildText)
+
+    public static readonly Emoji: Parser<ParsedEmoji> = withSuggestions(syncArgumentParser<ParsedEmoji>(ctx => {
+        let reader = ctx.reader
+        let ci = reader.idx
+        let str = reader.collect(UNTIL_WHITESPACE)
+
+        // try custom emoji
+        let match = str.match(/^<(a?):(\w+):(\d+)>$/)
+        if (match) {
+            return ctx.completedParse(new ParsedEmoji(match[3], match[2], match[1] == "a"))
+        }
+
+        // try emoji of the guild by id or name
+        let name = str.replace(/^:(\w+):$/, "$1")
+        let emoji = ctx.guild.isPresent() ?
+            ctx.guild.get().emojis.cache.find(e => e.id == name || e.name == name) :
+            undefined
+        if (emoji) {
+            return ctx.completedParse(new ParsedEmoji(emoji.id, emoji.name, emoji.animated))
+        }
+
+        // try unicode emoji
+        if (UNICODE_EMOJI_PATTERN.test(str)) {
+            return ctx.completedParse(new ParsedEmoji(null, str, false))
+        }
+
+        return ctx.failedParse(new ParseError(ctx.t("parse.emoji", { input: str }), new StringLoc(reader, ci, reader.idx)))
+    }, emoji => emoji.toString()), (ctx: CommandContext, input) => {
+        if (!ctx.guild.isPresent())
+            return []
+        return matchSuggestions(ctx.guild.get().emojis.cache.map(e => ":" + e.name + ":"), input.startsWith(":") ? input : ":" + input)
     })
 
+    public static readonly DiscordMessage: Parser<Message> = asyncArgumentParser(async ctx => {
+        let reader = ctx.reader
+        let ci = reader.idx
+        let str = reader.collect(UNTIL_WHITESPACE)
+        const fail = (msg: string) => ctx.failedParse(new ParseError(msg, new StringLoc(reader, ci, reader.idx)))
+
+        // find the channel and message ids, either a link,
+        // a channel-message pair or a message in this channel
+        let channelId: string
+        let messageId: string
+        let match: RegExpMatchArray
+        if (match = str.match(MESSAGE_LINK_PATTERN)) {
+            [channelId, messageId] = [match[2], match[3]]
+        } else if (match = str.match(/^(\d+)-(\d+)$/)) {
+            [channelId, messageId] = [match[1], match[2]]
+        } else if (/^\d+$/.test(str)) {
+            [channelId, messageId] = [ctx.channel.id, str]
+        } else {
+            return fail(ctx.t("parse.messageLink", { input: str }))
+        }
+
+        // resolve the channel, only messages in
+        // the current guild or DM are accessible
+        let channel = ctx.client.channels.cache.get(channelId) || await ctx.client.channels.fetch(channelId).catch(_ => null)
+        if (!channel || !channel.isTextBased()) {
+            return fail(ctx.t("parse.messageChannel", { id: channelId }))
+        }
+
+        let guildId = ctx.guild.map(g => g.id).orElse(null)
+        if ((channel.isDMBased() ? channel.id != ctx.channel.id : channel.guildId != guildId)) {
+            return fail(ctx.t(guildId ? "parse.messageOutsideServer" : "parse.messageOutsideChannel"))
+        }
+
+        // only messages the invoking member can read
+        if (!channel.isDMBased()) {
+            let permissions = ctx.member.isPresent() ? channel.permissionsFor(ctx.member.get()) : null
+            if (!permissions || !permissions.has([PermissionsBitField.Flags.ViewChannel, PermissionsBitField.Flags.ReadMessageHistory])) {
+                return fail(ctx.t("parse.messageNoAccess", { channel: channel.toString() }))
+            }
+        }
+
+        let message = channel.messages.cache.get(messageId) || await channel.messages.fetch(messageId).catch(_ => null)
+        return message ? ctx.completedParse(message) : fail(ctx.t("parse.message", { id: messageId }))
+    }, message => message.url)
+
+    public static readonly Color: Parser<number> = withSuggestions(syncArgumentParser<number>(ctx => {
+        let reader = ctx.reader
+        let ci = reader.idx
+        let str = reader.collect(UNTIL_WHITESPACE)
+
+        // try hex color
+        let match = str.match(/^(?:#|0x)?([0-9a-f]{6})$/i) || str.match(/^#([0-9a-f]{3})$/i)
+        if (match) {
+            let hex = match[1].length == 3 ? [...match[1]].map(c => c + c).join("") : match[1]
+            return ctx.completedParse(parseInt(hex, 16))
+        }
+
+        // try named color
+        let name = str.toLowerCase().replace(/[-_ ]/g, "")
+        let entry = Object.entries(Colors).find(e => e[0].toLowerCase() == name)
+        if (entry) {
+            return ctx.completedParse(entry[1])
+        }
+
+        return ctx.failedParse(new ParseError(ctx.t("parse.color", { input: str }), new StringLoc(reader, ci, reader.idx)))
+    }, color => "#" + color.toString(16).padStart(6, "0")), (ctx, input) => matchSuggestions(Object.keys(Colors), input))
+
+    /** Parses relative times like `in 2h`, `2h ago`, `5pm` or `tomorrow 5pm` */
+    public static readonly RelativeTime: Parser<Date> = syncArgumentParser<Date>(ctx => {
+        let reader = ctx.reader
+        let ci = reader.idx
+        let now = new Date()
+
+        // try duration, `5m`, `in 5m` or `5m ago`
+        let inPrefix = reader.peekCheckString("in ") || reader.peekCheckString("in\t")
+        if (inPrefix) {
+            reader.next(2)
+            reader.skipWhitespace()
+        }
+
+        if (isBase10Digit(reader.current())) {
+            let di = reader.idx
+            let duration = ctx.parse(ParsersBase.Duration)
+            if (!duration.error) {
+                reader.pushIndex()
+                reader.skipWhitespace()
+                let ago = !inPrefix && reader.collect(UNTIL_WHITESPACE).toLowerCase() == "ago"
+                if (ago) reader.popIndex()
+                else reader.restore()
+                return ctx.completedParse(new Date(now.getTime() + (ago ? -duration.value : duration.value)))
+            }
+
+            // otherwise a time of day
+            reader.idx = di
+        }
+
+        if (inPrefix) {
+            return ctx.failedParse(new ParseError(ctx.t("parse.durationAfterIn"), new StringLoc(reader, ci, reader.idx)))
+        }
+
+        // try time of day, the next occurence
+        let time = readTimeOfDay(reader)
+        if (time) {
+            let date = new Date(now)
+            date.setHours(time[0], time[1], time[2], 0)
+            if (date.getTime() <= now.getTime())
+                date.setDate(date.getDate() + 1)
+            return ctx.completedParse(date)
+        }
+
+        // try day with optional time of day
+        reader.pushIndex()
+        let word = reader.collect(UNTIL_WHITESPACE).toLowerCase()
+        if (word == "next") {
+            reader.skipWhitespace()
+            word = reader.collect(UNTIL_WHITESPACE).toLowerCase()
+        }
+
+        let weekday = WEEKDAYS.findIndex(d => word.length >= 3 && d.startsWith(word))
+        let offset: number
+        if (word == "now") {
+            reader.popIndex()
+            return ctx.completedParse(now)
+        } else if (word == "today") {
+            offset = 0
+        } else if (word == "tomorrow") {
+            offset = 1
+        } else if (word == "yesterday") {
+            offset = -1
+        } else if (weekday != -1) {
+            offset = (weekday - now.getDay() + 7) % 7 || 7
+        } else {
+            reader.restore()
+            return ctx.failedParse(new ParseError(ctx.t("parse.date", { input: word }), new StringLoc(reader, ci, ci + word.length)))
+        }
+
+        reader.popIndex()
+        return ctx.completedParse(readDateTime(reader, new Date(now.getTime() + offset * DAY_MS)))
+    }, date => "<t:" + Math.floor(date.getTime() / 1000) + ":F>")
+
+    /** Parses absolute dates with an optional time of day, falls back to relative times */
+    public static readonly Date: Parser<Date> = syncArgumentParser<Date>(ctx => {
+        let reader = ctx.reader
+        let ci = reader.idx
+        let str = reader.collect(UNTIL_WHITESPACE)
+        const checked = (date: Date) => Number.isNaN(date.getTime()) ?
+            ctx.failedParse(new ParseError(ctx.t("parse.invalidDate", { input: str }), new StringLoc(reader, ci, reader.idx))) :
+            ctx.completedParse(date)
+
+        // try discord timestamp
+        let match = str.match(/^<t:(-?\d+)(?::[tTdDfFR])?>$/)
+        if (match) {
+            return checked(new Date(parseInt(match[1]) * 1000))
+        }
+
+        // try full ISO date time
+        if (/^\d{4}-\d{2}-\d{2}T[\d:.]+(Z|[+-]\d{2}:?\d{2})?$/i.test(str)) {
+            return checked(new Date(str))
+        }
+
+        // try ISO or european date with optional time of day
+        match = str.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/)
+        if (match) {
+            return checked(readDateTime(reader, new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]))))
+        }
+
+        match = str.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/)
+        if (match) {
+            return checked(readDateTime(reader, new Date(parseInt(match[3]), parseInt(match[2]) - 1, parseInt(match[1]))))
+        }
+
+        // try relative time
+        reader.idx = ci
+        return ctx.parse(this.RelativeTime)
+    }, date => "<t:" + Math.floor(date.getTime() / 1000) + ":F>")
+
     public static readonly CodeBlocks: Parser<CodeBlock[]> = syncArgumentParser<CodeBlock[]>(ctx => {
         let reader = ctx.reader
         reader.skipWhitespace()
@@ -1045,6 +3561,12 @@ export class Parsers extends ParsersBase {
     }) 
 }
 
+applicationOptionType(Parsers.Number, ApplicationCommandOptionType.Number)
+applicationOptionType(Parsers.Integer, ApplicationCommandOptionType.Integer)
+applicationOptionType(Parsers.DiscordUser, ApplicationCommandOptionType.User)
+applicationOptionType(Parsers.DiscordMember, ApplicationCommandOptionType.User)
+applicationOptionType(Parsers.DiscordRole, ApplicationCommandOptionType.Role)
+
 export function createBasicAssertion(f: (ctx: CommandContext) => CommandAssertionResult): CommandAssertion {
     return new class implements CommandAssertion {
         test(ctx: CommandContext): CommandAssertionResult {
@@ -1053,14 +3575,28 @@ export function createBasicAssertion(f: (ctx: CommandContext) => CommandAssertio
     }
 }
 
+// Get the readable names of the given permissions
+function permissionNames(perms: PermissionResolvable[]): string {
+    return new PermissionsBitField(perms).toArray().map(p => "`" + p.replace(/([a-z])([A-Z])/g, "$1 $2") + "`").join(", ")
+}
+
+// Get the channel a thread belongs to, or the channel itself
+function threadParent(channel: TextBasedChannel): TextBasedChannel | GuildBasedChannel {
+    return channel.isThread() && channel.parent ? channel.parent : channel
+}
+
 /** Default command assertions */
 export class CommandAssertions {
     public static Permissions(...perms: string[]): CommandAssertion {
         return createBasicAssertion(ctx => {
+            // outside of guilds no groups apply
+            if (!ctx.member.isPresent())
+                return CommandAssertionResult.fail(ctx.t("assertion.permissionOutsideGuild", { permission: perms[0] }))
+
             let permissible = PermissionManager.get().forMember(ctx.member.get())
             for (let perm of perms) {
                 if (permissible.check(perm, Permit.DENY) != Permit.ALLOW) {
-                    return CommandAssertionResult.fail("Lacking permission `" + perm + "`")
+                    return CommandAssertionResult.fail(ctx.t("assertion.permission", { permission: perm }))
                 }
             }
 
@@ -1077,11 +3613,322 @@ export class CommandAssertions {
             let cp = ctx.channel instanceof GuildChannel ? ctx.channel.permissionOverwrites : undefined
             for (let p of perms) {
                 if (!mp.has(p) && (!cp || !cp.cache.has(p.toString()))) {
-                    return CommandAssertionResult.fail("Lacking permission `" + p + "`")
+                    return CommandAssertionResult.fail(ctx.t("assertion.permission", { permission: p }))
                 }
             }
 
             return CommandAssertionResult.SUCCESS
         })
     }
-}
\ No newline at end of file
+
+    /** Only allow the command in servers */
+    public static GuildOnly(): CommandAssertion {
+        return createBasicAssertion(ctx => ctx.guild.isPresent() ?
+            CommandAssertionResult.SUCCESS :
+            CommandAssertionResult.fail(ctx.t("assertion.guildOnly")))
+    }
+
+    /** Only allow the command in direct messages */
+    public static DMOnly(): CommandAssertion {
+        return createBasicAssertion(ctx => !ctx.guild.isPresent() ?
+            CommandAssertionResult.SUCCESS :
+            CommandAssertionResult.fail(ctx.t("assertion.dmOnly")))
+    }
+
+    /** Only allow the given users, or the owners of the bot application if none are given */
+    public static BotOwner(...userIds: string[]): CommandAssertion {
+        return createBasicAssertion(ctx => {
+            let owner = ctx.client.application ? ctx.client.application.owner : undefined
+            let allowed = userIds.length > 0 ? userIds.includes(ctx.author.id) :
+                owner instanceof User ? owner.id == ctx.author.id :
+                owner ? owner.members.has(ctx.author.id) : false
+            return allowed ?
+                CommandAssertionResult.SUCCESS :
+                CommandAssertionResult.fail(ctx.t("assertion.botOwner"))
+        })
+    }
+
+    /** Only allow the command in age-restricted channels and their threads */
+    public static NSFW(): CommandAssertion {
+        return createBasicAssertion(ctx => {
+            let channel = threadParent(ctx.channel)
+            return "nsfw" in channel && channel.nsfw ?
+                CommandAssertionResult.SUCCESS :
+                CommandAssertionResult.fail(ctx.t("assertion.nsfw"))
+        })
+    }
+
+    /** Only allow the command in the given channels or their threads */
+    public static Channels(...channelIds: string[]): CommandAssertion {
+        return createBasicAssertion(ctx => channelIds.includes(ctx.channel.id) || channelIds.includes(threadParent(ctx.channel).id) ?
+            CommandAssertionResult.SUCCESS :
+            CommandAssertionResult.fail(ctx.t("assertion.channels", { channels: channelIds.map(id => "<#" + id + ">").join(", ") })))
+    }
+
+    /** Deny the command in the given channels and their threads */
+    public static ExcludeChannels(...channelIds: string[]): CommandAssertion {
+        return createBasicAssertion(ctx => channelIds.includes(ctx.channel.id) || channelIds.includes(threadParent(ctx.channel).id) ?
+            CommandAssertionResult.fail(ctx.t("assertion.excludedChannel")) :
+            CommandAssertionResult.SUCCESS)
+    }
+
+    /** Only allow the command in channels of the given categories */
+    public static Categories(...categoryIds: string[]): CommandAssertion {
+        return createBasicAssertion(ctx => {
+            let channel = threadParent(ctx.channel)
+            return "parentId" in channel && categoryIds.includes(channel.parentId) ?
+                CommandAssertionResult.SUCCESS :
+                CommandAssertionResult.fail(ctx.t("assertion.categories", { categories: categoryIds.map(id => "<#" + id + ">").join(", ") }))
+        })
+    }
+
+    /** Deny the command in channels of the given categories */
+    public static ExcludeCategories(...categoryIds: string[]): CommandAssertion {
+        return createBasicAssertion(ctx => {
+            let channel = threadParent(ctx.channel)
+            return "parentId" in channel && categoryIds.includes(channel.parentId) ?
+                CommandAssertionResult.fail(ctx.t("assertion.excludedCategory")) :
+                CommandAssertionResult.SUCCESS
+        })
+    }
+
+    /** Require the member to have all of the given roles */
+    public static Roles(...roleIds: string[]): CommandAssertion {
+        return createBasicAssertion(ctx => {
+            if (!ctx.member.isPresent())
+                return CommandAssertionResult.fail(ctx.t("assertion.guildOnly"))
+
+            let missing = roleIds.filter(id => !ctx.member.get().roles.cache.has(id))
+            return missing.length == 0 ?
+                CommandAssertionResult.SUCCESS :
+                CommandAssertionResult.fail(ctx.t("assertion.roles", { roles: missing.map(id => "<@&" + id + ">").join(", ") }))
+        })
+    }
+
+    /** Require the member to have at least one of the given roles */
+    public static AnyRole(...roleIds: string[]): CommandAssertion {
+        return createBasicAssertion(ctx => {
+            if (!ctx.member.isPresent())
+                return CommandAssertionResult.fail(ctx.t("assertion.guildOnly"))
+
+            return roleIds.some(id => ctx.member.get().roles.cache.has(id)) ?
+                CommandAssertionResult.SUCCESS :
+                CommandAssertionResult.fail(ctx.t("assertion.anyRole", { roles: roleIds.map(id => "<@&" + id + ">").join(", ") }))
+        })
+    }
+
+    /** Require the bot itself to have the given permissions in the current channel */
+    public static BotPermissions(...perms: PermissionResolvable[]): CommandAssertion {
+        return createBasicAssertion(ctx => {
+            if (!ctx.guild.isPresent())
+                return CommandAssertionResult.SUCCESS
+
+            let me = ctx.guild.get().members.me
+            let channel = threadParent(ctx.channel)
+            let has = me ? (channel instanceof GuildChannel ? me.permissionsIn(channel) : me.permissions) : undefined
+            let missing = perms.filter(p => !has || !has.has(p))
+            return missing.length == 0 ?
+                CommandAssertionResult.SUCCESS :
+                CommandAssertionResult.fail(ctx.t("assertion.botPermissions", { permissions: permissionNames(missing) }))
+        })
+    }
+
+    public static Cooldown(duration: number, scope: CooldownScope = CooldownScope.USER, bypassPermission: string = undefined): CommandAssertion {
+        return new CommandCooldown(duration, scope, bypassPermission)
+    }
+}
+
+/** What a lock is keyed by */
+export enum LockScope {
+    USER    = "USER",    // One lock per user
+    MEMBER  = "MEMBER",  // One lock per user per guild
+    CHANNEL = "CHANNEL", // One lock per channel
+    GUILD   = "GUILD",   // One lock per guild, or per channel outside guilds
+    GLOBAL  = "GLOBAL"   // One lock for everyone
+}
+
+/** How a lock handles concurrent executions */
+export type LockOptions = {
+    limit: number   // The amount of concurrent executions per key
+    queue: boolean  // Whether to wait for a free slot instead of failing
+    timeout: number // The maximum time in milliseconds to wait for a free slot
+    message: string // The failure message if no slot is free, optional
+}
+
+/** Limits the concurrent executions of a command per key, queueing or failing the rest */
+export class CommandLock {
+    scope: LockScope                                 // The scope of the keys, undefined for custom keys
+    keyFunc: (ctx: CommandContext) => string         // Derives custom keys, undefined keys are not limited
+    options: LockOptions                             // How concurrent executions are handled
+    running: Map<string, number> = new Map()         // The amount of running executions by key
+    waiting: Map<string, (() => void)[]> = new Map() // The queued executions by key
+
+    constructor(scope: LockScope | ((ctx: CommandContext) => string), options: Partial<LockOptions> = { }) {
+        if (typeof scope == 'function') this.keyFunc = scope
+        else this.scope = scope
+        this.options = {
+            limit: 1,
+            queue: false,
+            timeout: 30 * 1000,
+            message: undefined,
+            ...options
+        }
+    }
+
+    /** Get the lock key for the given context */
+    public key(ctx: CommandContext): string {
+        switch (this.scope) {
+            case LockScope.USER:    return ctx.author.id
+            case LockScope.MEMBER:  return ctx.guild.map(g => g.id + ".").orElse("") + ctx.author.id
+            case LockScope.CHANNEL: return ctx.channel.id
+            case LockScope.GUILD:   return ctx.guild.map(g => g.id).orElse(ctx.channel.id)
+            case LockScope.GLOBAL:  return ""
+            default:                return this.keyFunc(ctx)
+        }
+    }
+
+    /** Get the message of the result if no slot is free in the given context */
+    public failMessage(ctx: CommandContext): string {
+        if (this.options.message) return this.options.message
+        if (this.options.queue) return ctx.t("lock.queueTimeout")
+        return ctx.t(this.scope == LockScope.USER || this.scope == LockScope.MEMBER ? "lock.user" : "lock.busy")
+    }
+
+    /** Take a slot for the given context, resolves to the function freeing it or undefined if none became free */
+    public acquire(ctx: CommandContext): Promise<() => void> {
+        let key = this.key(ctx)
+        if (key === undefined) {
+            return completedPromise(() => { })
+        }
+
+        if ((this.running.get(key) || 0) < this.options.limit) {
+            return completedPromise(this.take(key))
+        }
+
+        if (!this.options.queue) {
+            return completedPromise(undefined)
+        }
+
+        // wait until a slot is handed over
+        // or the timeout is reached
+        return new Promise(resolve => {
+            let queue = this.waiting.get(key) || []
+            this.waiting.set(key, queue)
+
+            let waiter = () => {
+                clearTimeout(timer)
+                resolve(this.take(key))
+            }
+
+            let timer = setTimeout(() => {
+                queue.splice(queue.indexOf(waiter), 1)
+                if (queue.length == 0) this.waiting.delete(key)
+                resolve(undefined)
+            }, this.options.timeout)
+            queue.push(waiter)
+        })
+    }
+
+    // Take a slot for the given key, the returned
+    // function frees it once and hands it over
+    private take(key: string): () => void {
+        this.running.set(key, (this.running.get(key) || 0) + 1)
+
+        let released = false
+        return () => {
+            if (released) return
+            released = true
+
+            let count = this.running.get(key) - 1
+            if (count > 0) this.running.set(key, count)
+            else this.running.delete(key)
+
+            let queue = this.waiting.get(key)
+            if (queue) {
+                let next = queue.shift()
+                if (queue.length == 0) this.waiting.delete(key)
+                next()
+            }
+        }
+    }
+}
+
+/** What a cooldown bucket is keyed by */
+export enum CooldownScope {
+    USER    = "USER",    // One bucket per user
+    MEMBER  = "MEMBER",  // One bucket per user per guild
+    CHANNEL = "CHANNEL", // One bucket per channel
+    GUILD   = "GUILD"    // One bucket per guild, or per channel outside guilds
+}
+
+/** Limits how often a command can be used, the cooldown starts once the assertion passes */
+export class CommandCooldown implements CommandAssertion {
+    duration: number                         // The cooldown duration in milliseconds
+    scope: CooldownScope                     // What the buckets are keyed by
+    bypassPermission: string                 // The permission to skip the cooldown, optional
+    buckets: Map<string, number> = new Map() // The time of the last use by bucket key
+
+    constructor(duration: number, scope: CooldownScope, bypassPermission: string = undefined) {
+        this.duration = duration
+        this.scope = scope
+        this.bypassPermission = bypassPermission
+    }
+
+    /** Get the bucket key for the given context */
+    public key(ctx: CommandContext): string {
+        switch (this.scope) {
+            case CooldownScope.USER:    return ctx.author.id
+            case CooldownScope.MEMBER:  return ctx.guild.map(g => g.id + ".").orElse("") + ctx.author.id
+            case CooldownScope.CHANNEL: return ctx.channel.id
+            case CooldownScope.GUILD:   return ctx.guild.map(g => g.id).orElse(ctx.channel.id)
+        }
+    }
+
+    /** Get the remaining cooldown time in milliseconds for the given context */
+    public remaining(ctx: CommandContext): number {
+        let last = this.buckets.get(this.key(ctx))
+        return last ? Math.max(0, last + this.duration - Date.now()) : 0
+    }
+
+    /** Check whether the member of the given context has the bypass permission */
+    public bypassed(ctx: CommandContext): boolean {
+        return !!this.bypassPermission && ctx.member.isPresent() &&
+            PermissionManager.get().forMember(ctx.member.get()).check(this.bypassPermission, Permit.DENY) == Permit.ALLOW
+    }
+
+    /** Reset the cooldown for the given context */
+    public reset(ctx: CommandContext) {
+        this.buckets.delete(this.key(ctx))
+    }
+
+    test(ctx: CommandContext): CommandAssertionResult {
+        if (this.bypassed(ctx)) {
+            return CommandAssertionResult.SUCCESS
+        }
+
+        let remaining = this.remaining(ctx)
+        if (remaining > 0) {
+            return CommandAssertionResult.fail(ctx.t("assertion.cooldown", { remaining: epochTimeToSMS(remaining) }), remaining)
+        }
+
+        return CommandAssertionResult.SUCCESS
+    }
+
+    charge(ctx: CommandContext) {
+        if (this.bypassed(ctx)) {
+            return
+        }
+
+        // start the cooldown and sweep
+        // expired buckets
+        let now = Date.now()
+        this.buckets.set(this.key(ctx), now)
+        if (this.buckets.size > 1000) {
+            this.buckets.forEach((t, k) => t + this.duration <= now ? this.buckets.delete(k) : { })
+        }
+    }
+
+    failResult(ctx: CommandContext, result: CommandAssertionResult): AssertionFailedResult {
+        return new CooldownResult(ctx, result.message, this, result.error)
+    }
+}
@@ -0,0 +1,292 @@
+import { ChannelType, Client, Collection, Guild, GuildEmoji, GuildMember, Message, MessageCreateOptions, PermissionResolvable, PermissionsBitField, Role, TextBasedChannel, User } from "discord.js";
+import { CommandContext, CommandDispatcher, CommandResult } from "./command-service";
+import { StringReader } from "../util/strings";
+
+/** The kind of message operation recorded by the test kit */
+export type MockMessageAction = "send" | "reply" | "edit" | "delete"
+
+/** A message operation recorded by the test kit */
+export type MockMessageEvent = {
+    action: MockMessageAction // The kind of operation
+    message: Message          // The (mock) message created, edited or deleted
+    channelId: string         // The channel the operation happened in
+    payload: any              // The payload sent, undefined for deletions
+}
+
+/** The outcome of running a command through the test kit */
+export type CommandTestRun = {
+    ctx: CommandContext        // The context the command was dispatched with
+    message: Message           // The mock message containing the command
+    result: CommandResult      // The result, undefined if the content had no prefix
+    events: MockMessageEvent[] // The message operations caused by this run
+}
+
+/** Options for running a command through the test kit */
+export type CommandTestOptions = {
+    author?: User              // The author, defaults to the default user
+    channel?: TextBasedChannel // The channel, defaults to the default channel
+    member?: GuildMember       // The member, resolved from the channels guild by default
+    handle?: boolean           // Whether to handle the result the default way, defaults to true
+    wait?: number              // The time in milliseconds to wait for delayed operations
+}
+
+/** The standard prefix set on dispatchers without one */
+export const TEST_PREFIX = "?"
+
+// Wait for all pending promise callbacks and the given time
+function settle(ms: number = 0): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Builds mock Discord entities and runs commands through a dispatcher
+ * without a live connection, recording all sent, edited and deleted messages.
+ */
+export class CommandTestKit {
+    dispatcher: CommandDispatcher    // The dispatcher to run commands on
+    client: Client                   // The mock client
+    events: MockMessageEvent[] = []  // All recorded message operations
+
+    defaultUser: User                // The author used when none is specified
+    defaultChannel: TextBasedChannel // The channel used when none is specified
+
+    private nextId: number = 1000    // The counter for generated snowflakes
+
+    constructor(dispatcher: CommandDispatcher = new CommandDispatcher()) {
+        this.dispatcher = dispatcher
+        this.dispatcher.standardPrefix ||= TEST_PREFIX
+
+        let users = new Collection<string, User>()
+        let channels = new Collection<string, TextBasedChannel>()
+        this.client = {
+            users: { cache: users, fetch: (id: string) => Promise.resolve(users.get(id)) },
+            guilds: { cache: new Collection<string, Guild>() },
+            channels: { cache: channels, fetch: (id: string) => Promise.resolve(channels.get(id) || null) }
+        } as unknown as Client
+        this.client.user = this.user({ username: "bot", bot: true }) as any
+
+        this.defaultUser = this.user({ username: "tester" })
+        this.defaultChannel = this.channel()
+    }
+
+    /** Generate a new unique snowflake */
+    snowflake(): string {
+        return (this.nextId++).toString()
+    }
+
+    /** Create a mock user and add it to the client cache */
+    user(props: { id?: string, username?: string, bot?: boolean } = { }): User {
+        let id = props.id || this.snowflake()
+        let user = {
+            id: id,
+            username: props.username || "user" + id,
+            bot: props.bot || false,
+            client: this.client,
+            toString: () => "<@" + id + ">"
+        } as unknown as User
+
+        this.client.users.cache.set(id, user)
+        return user
+    }
+
+    /** Create a mock guild and add it to the client cache */
+    guild(props: { id?: string, name?: string, owner?: User } = { }): Guild {
+        let id = props.id || this.snowflake()
+        let members = new Collection<string, GuildMember>()
+        let roles = new Collection<string, Role>()
+        let channels = new Collection<string, TextBasedChannel>()
+        let client = this.client
+        let guild = {
+            id: id,
+            name: props.name || "guild" + id,
+            ownerId: (props.owner || this.defaultUser).id,
+            client: this.client,
+            members: { cache: members, fetch: (id: string) => Promise.resolve(members.get(id)), get me() { return members.get(client.user.id) } },
+            roles: { cache: roles, fetch: (id: string) => Promise.resolve(roles.get(id) || null) },
+            channels: { cache: channels, fetch: (id: string) => Promise.resolve(channels.get(id) || null) },
+            emojis: { cache: new Collection<string, GuildEmoji>() }
+        } as unknown as Guild
+
+        // the everyone role shares the guild id
+        this.role(guild, { id: id, name: "@everyone" })
+
+        this.client.guilds.cache.set(id, guild)
+        return guild
+    }
+
+    /** Create a mock role in the given guild */
+    role(guild: Guild, props: { id?: string, name?: string, permissions?: PermissionResolvable, position?: number } = { }): Role {
+        let id = props.id || this.snowflake()
+        let role = {
+            id: id,
+            name: props.name || "role" + id,
+            guild: guild,
+            position: props.position || guild.roles.cache.size,
+            permissions: new PermissionsBitField(props.permissions || []),
+            toString: () => "<@&" + id + ">"
+        } as unknown as Role
+
+        guild.roles.cache.set(id, role)
+        return role
+    }
+
+    /** Create a mock custom emoji in the given guild */
+    emoji(guild: Guild, props: { id?: string, name?: string, animated?: boolean } = { }): GuildEmoji {
+        let id = props.id || this.snowflake()
+        let emoji = {
+            id: id,
+            name: props.name || "emoji" + id,
+            animated: props.animated || false,
+            guild: guild,
+            toString: () => "<" + (props.animated ? "a" : "") + ":" + emoji.name + ":" + id + ">"
+        } as unknown as GuildEmoji
+
+        guild.emojis.cache.set(id, emoji)
+        return emoji
+    }
+
+    /** Create a mock member for the user in the given guild */
+    member(guild: Guild, user: User = this.defaultUser, props: { nickname?: string, roles?: Role[], permissions?: PermissionResolvable } = { }): GuildMember {
+        let roles = new Collection<string, Role>()
+        roles.set(guild.id, guild.roles.cache.get(guild.id))
+        for (let role of props.roles || []) {
+            roles.set(role.id, role)
+        }
+
+        // combine the permissions of all roles
+        let permissions = new PermissionsBitField(props.permissions || [])
+        roles.forEach(r => permissions.add(r.permissions))
+        if (guild.ownerId == user.id) {
+            permissions.add(PermissionsBitField.All)
+        }
+
+        let member = {
+            id: user.id,
+            user: user,
+            guild: guild,
+            client: this.client,
+            nickname: props.nickname || null,
+            displayName: props.nickname || user.username,
+            roles: { cache: roles },
+            permissions: permissions,
+            permissionsIn: (channel: any) => channel && channel.permissionsFor ? channel.permissionsFor(member) : permissions,
+            toString: () => "<@" + user.id + ">"
+        } as unknown as GuildMember
+
+        guild.members.cache.set(user.id, member)
+        return member
+    }
+
+    /** Create a mock text channel, a DM channel if no guild is given, the denied permissions apply to all but administrators */
+    channel(guild: Guild = undefined, props: { id?: string, name?: string, nsfw?: boolean, parentId?: string, denied?: PermissionResolvable } = { }): TextBasedChannel {
+        let id = props.id || this.snowflake()
+        let messages = new Collection<string, Message>()
+        let channel: any = {
+            id: id,
+            name: props.name || "channel" + id,
+            type: guild ? ChannelType.GuildText : ChannelType.DM,
+            guild: guild,
+            guildId: guild ? guild.id : null,
+            nsfw: props.nsfw || false,
+            parentId: props.parentId || null,
+            client: this.client,
+            messages: { cache: messages, fetch: (id: string) => Promise.resolve(messages.get(id) || null) },
+            url: "https://discord.com/channels/" + (guild ? guild.id : "@me") + "/" + id,
+            isDMBased: () => !guild,
+            isTextBased: () => true,
+            isThread: () => false,
+            toString: () => "<#" + id + ">"
+        }
+
+        channel.permissionsFor = (member: GuildMember) => {
+            let permissions = new PermissionsBitField(member.permissions)
+            if (props.denied && !permissions.has(PermissionsBitField.Flags.Administrator)) permissions.remove(props.denied)
+            return permissions
+        }
+
+        channel.send = (payload: any) => Promise.resolve(this.record("send", this.message(channel, this.client.user, payload), payload))
+
+        if (guild) {
+            guild.channels.cache.set(id, channel)
+        }
+
+        this.client.channels.cache.set(id, channel)
+        return channel
+    }
+
+    /** Create a mock message in the given channel without recording it */
+    message(channel: TextBasedChannel, author: User, payload: string | MessageCreateOptions, member: GuildMember = undefined): Message {
+        let guild: Guild = (channel as any).guild
+        let id = this.snowflake()
+        let message: any = {
+            id: id,
+            content: typeof payload == 'string' ? payload : payload.content || "",
+            embeds: typeof payload == 'string' ? [] : payload.embeds || [],
+            components: typeof payload == 'string' ? [] : payload.components || [],
+            author: author,
+            member: member || (guild ? guild.members.cache.get(author.id) : null) || null,
+            guild: guild || null,
+            guildId: guild ? guild.id : null,
+            channel: channel,
+            channelId: channel.id,
+            client: this.client,
+            url: (channel as any).url + "/" + id,
+            createdTimestamp: Date.now(),
+            deleted: false
+        }
+
+        message.fetch = () => Promise.resolve(message)
+        message.reply = (payload: any) => Promise.resolve(this.record("reply", this.message(channel, this.client.user, payload), payload))
+        message.edit = (payload: any) => {
+            message.content = typeof payload == 'string' ? payload : 'content' in payload ? payload.content || "" : message.content
+            message.embeds = typeof payload == 'string' ? message.embeds : payload.embeds ?? message.embeds
+            message.components = typeof payload == 'string' ? message.components : payload.components ?? message.components
+            return Promise.resolve(this.record("edit", message, payload))
+        }
+
+        message.delete = () => {
+            message.deleted = true
+            channel.messages.cache.delete(message.id)
+            return Promise.resolve(this.record("delete", message, undefined))
+        }
+
+        channel.messages.cache.set(message.id, message)
+        return message
+    }
+
+    // Record the given message operation
+    private record(action: MockMessageAction, message: Message, payload: any): Message {
+        this.events.push({ action: action, message: message, channelId: message.channelId, payload: payload })
+        return message
+    }
+
+    /** Run the given message content as a command like it was sent to the channel */
+    async run(content: string, options: CommandTestOptions = { }): Promise<CommandTestRun> {
+        let channel = options.channel || this.defaultChannel
+        let author = options.author || this.defaultUser
+        let message = this.message(channel, author, content, options.member)
+        let firstEvent = this.events.length
+
+        // create command context
+        let ctx = new CommandContext()
+        ctx.reader = new StringReader(content)
+        ctx.setMessage(message)
+
+        // check for prefix
+        let result: CommandResult = undefined
+        if (this.dispatcher.hasPrefix(ctx, content)) {
+            result = await this.dispatcher.dispatch(ctx)
+            if (options.handle != false) {
+                result.handleDefault()
+            }
+        }
+
+        await settle(options.wait)
+        return { ctx: ctx, message: message, result: result, events: this.events.slice(firstEvent) }
+    }
+
+    /** Clear all recorded message operations */
+    reset() {
+        this.events = []
+    }
+}
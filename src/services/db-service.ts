@@ -125,6 +125,9 @@ export abstract class Table<T> {
     /** Find one object by the given query */
     abstract findOne(query: any): Promise<T>
 
+    /** Find all objects matching the given query */
+    abstract findMany(query: any, options?: FindOptions): Promise<T[]>
+
     /** Create a default schema for the given prototype */
     abstract defaultSchemaFor(proto: object, factory: () => any)
 
@@ -194,6 +197,10 @@ class MappingSchemaTable<TSrc, T> extends Table<T> {
         return this._base.findOne(query).then(src => this._schema.fromSrc(src))
     }
 
+    findMany(query: any, options: FindOptions = { }): Promise<T[]> {
+        return this._base.findMany(query, options).then(list => list.map(src => this._schema.fromSrc(src)))
+    }
+
     defaultSchemaFor(proto: object, factory: () => any) {
         return this._base.defaultSchemaFor(proto, factory)
     }
@@ -408,6 +415,7 @@ export class Datastore<K, T> {
 
 /* ----------------- Action Types ----------------- */
 export type UpdateOptions = { upsert: boolean }
+export type FindOptions = { limit?: number, sort?: { [field: string]: 1 | -1 } }
 
 export type Acknowledgable = { acknowleged: boolean,  }
 export type UpdateResult = Acknowledgable & { modified: number, matched: number, upserted: number }
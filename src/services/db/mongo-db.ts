@@ -1,4 +1,4 @@
-import { DatabaseProvider, Database, Table, DeleteResult, Acknowledgable, UpdateOptions, UpdateResult, documentDirectMap } from '../db-service'
+import { DatabaseProvider, Database, Table, DeleteResult, Acknowledgable, UpdateOptions, UpdateResult, FindOptions, documentDirectMap } from '../db-service'
 import { MongoClient, Collection, Filter, Db } from 'mongodb'
 import { Document } from "bson";
 
@@ -112,6 +112,15 @@ export class MongoTable extends Table<Document> {
         return this.collection.findOne(this.buildMongoFilter(query))
     }
 
+    findMany(query: any, options: FindOptions = { }): Promise<Document[]> {
+        let cursor = this.collection.find(this.buildMongoFilter(query))
+        if (options.sort)
+            cursor = cursor.sort(options.sort)
+        if (options.limit)
+            cursor = cursor.limit(options.limit)
+        return cursor.toArray()
+    }
+
     defaultSchemaFor(proto: object, factory: () => any) {
         return documentDirectMap(proto, factory)
     }
@@ -1,5 +1,5 @@
 import { Connection, ConnectionOptions, RowDataPacket, createConnection } from "mysql";
-import { Acknowledgable, Database, DatabaseProvider, DeleteResult, Table, UpdateOptions, UpdateResult } from "../db-service";
+import { Acknowledgable, Database, DatabaseProvider, DeleteResult, FindOptions, Table, UpdateOptions, UpdateResult } from "../db-service";
 import { merge } from "../../util/types";
 
 export type ProviderConnectOptions = Omit<ConnectionOptions, 'database'>
@@ -46,6 +46,9 @@ export class MySQLDatabase extends Database<RowDataPacket> {
     }
 }
 
+/** The SQL comparison operators by the query operators they implement */
+const SQL_OPERATORS: { [op: string]: string } = { $eq: "=", $ne: "<>", $gt: ">", $gte: ">=", $lt: "<", $lte: "<=" }
+
 /** Represents a MySQL table */
 export class MySQLTable extends Table<RowDataPacket> {
     _conn: Connection // The MySQL database connection
@@ -57,6 +60,24 @@ export class MySQLTable extends Table<RowDataPacket> {
         this._name = name
     }
 
+    // Build the WHERE clause for the given query into
+    // the given values, operators like `$gte` are supported
+    private buildWhere(query: any, values: any[]): string {
+        let conditions: string[] = []
+        for (let [field, value] of Object.entries(query || { })) {
+            let ops: [string, any][] = value && typeof value == 'object' && !(value instanceof Date) ?
+                Object.entries(value) : [["$eq", value]]
+            for (let [op, operand] of ops) {
+                if (!SQL_OPERATORS[op])
+                    throw new Error("Unsupported query operator " + op + " on field " + field)
+                conditions.push(this._conn.escapeId(field) + " " + SQL_OPERATORS[op] + " ?")
+                values.push(operand)
+            }
+        }
+
+        return conditions.length > 0 ? " WHERE " + conditions.join(" AND ") : ""
+    }
+
     name(): string {
         return this._name
     }
@@ -84,4 +105,20 @@ export class MySQLTable extends Table<RowDataPacket> {
     findOne(query: any): Promise<RowDataPacket> {
         return undefined // TODO
     }
+
+    findMany(query: any, options: FindOptions = { }): Promise<RowDataPacket[]> {
+        return new Promise((resolve, reject) => {
+            let values: any[] = []
+            let sql = "SELECT * FROM " + this._conn.escapeId(this._name) + this.buildWhere(query, values)
+            if (options.sort)
+                sql += " ORDER BY " + Object.entries(options.sort).map(([f, d]) => this._conn.escapeId(f) + (d < 0 ? " DESC" : " ASC")).join(", ")
+            if (options.limit)
+                sql += " LIMIT " + Math.floor(options.limit)
+
+            this._conn.query(sql, values, (err, rows) => {
+                if (err) reject(err)
+                else resolve(rows as RowDataPacket[])
+            })
+        })
+    }
 }
\ No newline at end of file
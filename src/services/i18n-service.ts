@@ -0,0 +1,355 @@
+import { BotService, DependencyType, ServiceManager, autoRegister, eventHandler, providedBy, provides } from "../services";
+import { ConfigParser, JsonConfigParser, YamlConfigParser } from "./config-service";
+import { DataIO, fileJsonIO } from "../util/io";
+import { CONFIG_DIRECTORY, resolvePath } from "../util/paths";
+import { existsSync, readFileSync, readdirSync } from "fs";
+import path from "path";
+
+/** The parameters substituted into the `{name}` placeholders of a message */
+export type MessageParams = Record<string, any>
+
+/** Messages by key, the keys of nested bundles are joined with dots */
+export type TranslationBundle = { [key: string]: string | TranslationBundle }
+
+/** Where the locale of an invocation can be resolved from, all optional */
+export type LocaleSource = {
+    userId?: string            // The ID of the invoking user
+    guildId?: string           // The ID of the guild the invocation happened in
+    interactionLocale?: string // The Discord client locale of the invoking user
+}
+
+/** The locale of the built-in messages, used when no other locale has a message */
+export const DEFAULT_LOCALE = "en-US"
+
+/** The built-in messages of the command system */
+export const DEFAULT_MESSAGES: TranslationBundle = {
+    result: {
+        parseError: "Parse Error: {error}",
+        multipleErrors: "Multiple Errors",
+        multipleErrorsOccurred: "Multiple Errors Occurred",
+        didYouMean: "Did you mean {suggestions}?",
+        usage: "**Usage:** {usage}"
+    },
+    error: {
+        executor: "Error in executor: `{error}`",
+        middleware: "Error in middleware: `{error}`",
+        system: "System Error: `{error}`",
+        parsing: "Uncaught error while parsing: `{error}`",
+        prompt: "Error while asking for arguments: `{error}`",
+        lock: "Error while acquiring a lock: `{error}`"
+    },
+    command: {
+        unknown: "No command by name `{name}`",
+        unknownSubcommand: "No subcommand by name `{name}`",
+        unknownContextMenu: "No context menu command by name `{name}`",
+        rerunNotAuthor: "Only the author of the command can rerun it"
+    },
+    argument: {
+        required: "`{name}` is a required argument",
+        tooFewValues: {
+            one: "Expected at least {min} value for `{name}`",
+            other: "Expected at least {min} values for `{name}`"
+        },
+        unexpected: "Unexpected `{text}`",
+        invalid: "Invalid answer"
+    },
+    flag: {
+        unknown: "No flag by alias `{name}`",
+        invalidValue: "Invalid value `{value}` for flag `{name}`",
+        notCombinable: "Flag `{name}` takes a value and can not be combined"
+    },
+    prompt: {
+        question: "**{label}**\nReply with your answer or `cancel`",
+        timeout: "No answer for `{name}` was given in time",
+        modalTimeout: "No answers were submitted in time",
+        cancelled: "Cancelled",
+        tooManyInvalid: "Too many invalid answers for `{name}`: {error}",
+        tooManyInvalidAll: "Too many invalid answers, {errors}",
+        tooManyArguments: "Can not ask for more than {max} arguments at once",
+        retry: "Try again",
+        unavailable: "`{name}` is a required argument and can not be asked for here"
+    },
+    page: {
+        empty: "Nothing to show",
+        footer: "Page {page}/{pages}",
+        notAuthor: "Only the author of the command can change pages",
+        jumpTitle: "Jump to page",
+        jumpLabel: "Page (1-{pages})",
+        outOfRange: "Expected a page between 1 and {pages}"
+    },
+    policy: {
+        disabledInServer: "The command `{path}` is disabled in this server",
+        disabledInChannel: "The command `{path}` is disabled in this channel",
+        unknownChannel: "No channel by ID `{id}` in this server",
+        notRestrictable: "The `{command}` command can not be restricted",
+        enabledEverywhere: "`{path}` is now enabled in all channels",
+        enabledIn: "`{path}` is now enabled in {channels}",
+        disabledEverywhere: "`{path}` is now disabled in all channels",
+        disabledIn: "`{path}` is now disabled in {channels}",
+        bypassAdded: "`{path}` no longer restricts {role}",
+        bypassRemoved: "`{path}` restricts {role} again",
+        reset: "`{path}` is no longer restricted",
+        none: "No commands are restricted in this server",
+        title: "Command Policies",
+        stateDisabled: "disabled",
+        stateOnlyIn: "only in {channels}",
+        stateNotIn: "not in {channels}",
+        stateUnrestricted: "unrestricted",
+        bypassedBy: ", bypassed by {roles}"
+    },
+    alias: {
+        recursive: "The alias `{name}` expands to itself through {chain}",
+        tooDeep: "Aliases can only expand to other aliases {max} times",
+        whitespace: "Alias names can not contain whitespace",
+        commandName: "`{name}` is already the name of a command",
+        noCommands: "An alias needs at least one command",
+        tooManyCommands: "An alias can run at most {max} commands",
+        unknownCommand: "No command or alias by name `{name}`",
+        created: "Created the alias `{name}` running {commands}",
+        replaced: "Replaced the alias `{name}` running {commands}",
+        unknown: "No alias by name `{name}`",
+        removed: "Deleted the alias `{name}`",
+        none: "No aliases are defined in this server",
+        title: "Command Aliases"
+    },
+    help: {
+        title: "Commands",
+        noDescription: "No description provided",
+        aliases: "Aliases",
+        usage: "Usage",
+        flags: "Flags",
+        subcommands: "Subcommands"
+    },
+    prefix: {
+        list: "Prefixes: {prefixes}",
+        guildOnly: "Prefixes can only be changed in servers",
+        invalid: "Prefixes can not be empty or contain whitespace"
+    },
+    audit: {
+        guildOnly: "The audit log can only be searched in servers",
+        unsupported: "No audit sink supports searching",
+        none: "No recorded commands match the search",
+        title: "Audit Log"
+    },
+    locale: {
+        current: "Locale: `{locale}`",
+        user: ", preferred by you: `{locale}`",
+        guild: ", set by this server: `{locale}`",
+        available: "Available: {locales}",
+        unknown: "No translations for `{locale}`, available are {locales}"
+    },
+    lock: {
+        queueTimeout: "Timed out waiting for other uses of this command to finish",
+        user: "You are already using this command, wait for it to finish",
+        busy: "This command is already in use, try again later"
+    },
+    assertion: {
+        permissionOutsideGuild: "Lacking permission `{permission}`, it can only be granted in servers",
+        permission: "Lacking permission `{permission}`",
+        guildOnly: "This command can only be used in servers",
+        dmOnly: "This command can only be used in direct messages",
+        botOwner: "This command can only be used by the owners of the bot",
+        nsfw: "This command can only be used in age-restricted channels",
+        channels: "This command can only be used in {channels}",
+        excludedChannel: "This command can not be used in this channel",
+        categories: "This command can only be used in the categories {categories}",
+        excludedCategory: "This command can not be used in this category",
+        roles: "Lacking role {roles}",
+        anyRole: "Requires one of the roles {roles}",
+        botPermissions: "I am lacking the permission {permissions} here",
+        cooldown: "You are on cooldown, try again in `{remaining}`"
+    },
+    parse: {
+        expected: "Expected `{char}`",
+        escape: "Expected character to escape",
+        number: "Expected a number, got `{input}`",
+        integer: "Expected a whole number, got `{input}`",
+        timeUnit: "No time unit by name `{unit}`",
+        numberAtMost: "Expected a number at most {max}, got `{input}`",
+        numberAtLeast: "Expected a number at least {min}, got `{input}`",
+        numberBetween: "Expected a number between {min} and {max}, got `{input}`",
+        choice: "Expected one of {choices}, got `{input}`",
+        format: "`{input}` does not match the format `{format}`",
+        tooShort: "Expected at least {min} characters, got {length}",
+        tooLong: "Expected at most {max} characters, got {length}",
+        user: "No user by `{input}`",
+        userId: "No user by ID `{id}`",
+        memberOutsideGuild: "Can not parse member ID outside guild context",
+        member: "No member for user `{id}`",
+        roleOutsideGuild: "Can not parse role outside guild context",
+        roleId: "No role by ID `{id}`",
+        role: "No role by `{input}`",
+        channelOutsideGuild: "Can not parse channel outside guild context",
+        channel: "No channel by `{input}`",
+        channelType: "Channel `{name}` is not a {types} channel",
+        emoji: "No emoji by `{input}`",
+        messageLink: "Expected a message link or ID, got `{input}`",
+        messageChannel: "No text channel by ID `{id}`",
+        messageOutsideServer: "Can not access messages outside of this server",
+        messageOutsideChannel: "Can not access messages outside of this channel",
+        messageNoAccess: "You can not read the messages in {channel}",
+        message: "No message by ID `{id}`",
+        color: "No color by `{input}`, expected a hex code or color name",
+        durationAfterIn: "Expected a duration after `in`",
+        date: "Expected a date or time, got `{input}`",
+        invalidDate: "Invalid date `{input}`"
+    }
+}
+
+/** Replace the `{name}` placeholders of the given template, unknown placeholders are kept */
+export function formatMessage(template: string, params: MessageParams = { }): string {
+    return template.replace(/\{(\w+)\}/g, (m, name) => params[name] !== undefined ? String(params[name]) : m)
+}
+
+// Flatten the given bundle into the given map with dotted keys
+function flattenBundle(bundle: TranslationBundle, prefix: string, out: Map<string, string>) {
+    for (let [key, value] of Object.entries(bundle)) {
+        if (typeof value == 'object' && value != null) flattenBundle(value, prefix + key + ".", out)
+        else if (value != undefined) out.set(prefix + key, String(value))
+    }
+}
+
+/** Holds the translation bundles and the locale settings of guilds and users */
+@providedBy("I18nService", DependencyType.SERVICE)
+export class Translations {
+    private static INSTANCE: Translations
+    /** Get the active translations, ones with only the built-in messages if none were created */
+    public static get(): Translations {
+        return this.INSTANCE || new Translations()
+    }
+
+    dataIO: DataIO                                         // The data IO provider to use
+    defaultLocale: string = DEFAULT_LOCALE                 // The locale used when no other applies
+    bundles: Map<string, Map<string, string>> = new Map()  // The messages by key by locale
+    guildLocales: Map<string, string> = new Map()          // The locales set by guilds by guild ID
+    userLocales: Map<string, string> = new Map()           // The locales preferred by users by user ID
+
+    constructor() {
+        Translations.INSTANCE = this
+        this.addBundle(DEFAULT_LOCALE, DEFAULT_MESSAGES)
+    }
+
+    /** Add the messages of the given bundle to the given locale, replacing existing keys */
+    public addBundle(locale: string, bundle: TranslationBundle): this {
+        let messages = this.bundles.get(locale)
+        if (!messages) this.bundles.set(locale, messages = new Map())
+        flattenBundle(bundle, "", messages)
+        return this
+    }
+
+    /** Load the bundle file named after its locale like `de.yml`, the parser is picked by extension if not given */
+    public loadBundleFile(file: string, parser: ConfigParser = undefined): this {
+        let ext = path.extname(file).toLowerCase()
+        parser ||= ext == ".json" ? JsonConfigParser.standard() : YamlConfigParser.standard()
+        let bundle = parser.load(readFileSync(resolvePath(file)).toString("utf-8")) as TranslationBundle
+        return this.addBundle(path.basename(file, path.extname(file)), bundle || { })
+    }
+
+    /** Load all JSON and YAML bundle files in the given directory, returns the amount loaded */
+    public loadDirectory(dir: string): number {
+        dir = resolvePath(dir)
+        if (!existsSync(dir))
+            return 0
+
+        let files = readdirSync(dir).filter(f => /\.(json|ya?ml)$/i.test(f))
+        files.forEach(f => this.loadBundleFile(path.join(dir, f)))
+        return files.length
+    }
+
+    /** Get all locales with a bundle */
+    public locales(): string[] {
+        return [...this.bundles.keys()]
+    }
+
+    /** Find the locale with a bundle matching the given locale exactly or by language */
+    public findLocale(locale: string): string {
+        if (!locale)
+            return undefined
+        if (this.bundles.has(locale))
+            return locale
+
+        let language = locale.split("-")[0].toLowerCase()
+        return this.locales().find(l => l.split("-")[0].toLowerCase() == language)
+    }
+
+    /** Resolve the locale from the user preference, guild setting or client locale in that order */
+    public resolveLocale(source: LocaleSource): string {
+        return (source.userId && this.findLocale(this.userLocales.get(source.userId))) ||
+            (source.guildId && this.findLocale(this.guildLocales.get(source.guildId))) ||
+            this.findLocale(source.interactionLocale) ||
+            this.defaultLocale
+    }
+
+    /** Get the message by the given key in the given locale with its parameters, the fallback or key if it has none */
+    public translate(locale: string, key: string, params: MessageParams = { }, fallback: string = undefined): string {
+        let found = this.findLocale(locale)
+        let template = (found && this.bundles.get(found).get(key)) ||
+            (this.bundles.get(this.defaultLocale) || new Map()).get(key)
+        return template != undefined ? formatMessage(template, params) : fallback != undefined ? fallback : key
+    }
+
+    /** Set the locale of the given guild, undefined to reset it */
+    public setGuildLocale(guildId: string, locale: string) {
+        if (locale) this.guildLocales.set(guildId, locale)
+        else this.guildLocales.delete(guildId)
+    }
+
+    /** Set the preferred locale of the given user, undefined to reset it */
+    public setUserLocale(userId: string, locale: string) {
+        if (locale) this.userLocales.set(userId, locale)
+        else this.userLocales.delete(userId)
+    }
+
+    /** Loads all persistent data (synchronous) */
+    loadAllPersistentData() {
+        let data = this.dataIO.load()
+
+        /// Locales
+        this.guildLocales = new Map(Object.entries(data.guildLocales || { }))
+        this.userLocales = new Map(Object.entries(data.userLocales || { }))
+    }
+
+    /** Saves all persistent data */
+    async saveAllPersistentData() {
+        let data = { } as any
+
+        /// Locales
+        data.guildLocales = Object.fromEntries(this.guildLocales)
+        data.userLocales = Object.fromEntries(this.userLocales)
+
+        this.dataIO.save(data)
+    }
+}
+
+/* ----------------------------------------------- */
+
+/** The directory translation bundles are loaded from */
+const BUNDLE_DIRECTORY = path.join(CONFIG_DIRECTORY, "lang")
+
+@autoRegister()
+export class I18nService extends BotService {
+    // The global translations
+    @provides(Translations)
+    translations: Translations
+
+    onLoad(manager: ServiceManager): void {
+        this.translations = new Translations()
+
+        this.logger.info("Loading translation bundles from {0}", BUNDLE_DIRECTORY)
+        let count = this.translations.loadDirectory(BUNDLE_DIRECTORY)
+        this.logger.info("Loaded {0} translation bundles", count)
+
+        this.logger.info("Loading persistent locale data")
+        this.translations.dataIO = fileJsonIO("i18n-service/locales.json")
+        this.translations.loadAllPersistentData()
+    }
+
+    @eventHandler("saveData")
+    async save(p: any) {
+        if (p.reason != 'autosave-interval') {
+            this.logger.info("Saving persistent locale data")
+        }
+
+        this.translations.saveAllPersistentData()
+    }
+}
@@ -1,7 +1,7 @@
 import { BotService, DependencyType, ServiceManager, autoRegister, dependency, eventHandler, providedBy, provides, serviceManager } from "../services";
 import { CommandService } from "./command-service";
 import { DataIO, fileJsonIO } from "../util/io";
-import { Channel, Client, ClientEvents, EmbedBuilder, Emoji, EmojiIdentifierResolvable, EmojiResolvable, GatewayIntentBits, Guild, GuildMember, Message, MessageReaction, PartialMessage, PartialMessageReaction, ReactionEmoji, Role, TextBasedChannel, User } from "discord.js";
+import { ButtonInteraction, Channel, Client, ClientEvents, EmbedBuilder, Emoji, EmojiIdentifierResolvable, EmojiResolvable, GatewayIntentBits, Guild, GuildMember, Message, MessageReaction, PartialMessage, PartialMessageReaction, ReactionEmoji, Role, TextBasedChannel, User } from "discord.js";
 import { Logger } from "../util/logging";
 
 /** Context for serializing interaction components */
@@ -583,8 +583,11 @@ function createDiscordEventTrigger<K extends keyof ClientEvents, M>(event: K, ma
     serviceManager.on('preLoad', _ => {
         let client: Client = serviceManager.getSingleton(Client)
         client.on(event, (...args) => {
+            // events mapped to undefined are ignored
             let mapped = mapper(...args)
-            listeners.forEach(l => l.interaction.trigger(mapped))
+            if (mapped === undefined)
+                return
+            listeners.slice().forEach(l => l.interaction.trigger(mapped))
         })
     })
 
@@ -762,6 +765,7 @@ export type IHasMember = IHasUser & IHasGuild & { member: GuildMember }
 export type IHasChannel = { channel: Channel }
 export type IHasMessage = IHasChannel & IHasGuild & IHasMember & { message: Message | PartialMessage }
 export type IHasReaction = IHasMessage & { reaction: PartialMessageReaction | MessageReaction }
+export type IHasButton = IHasUser & IHasChannel & { button: ButtonInteraction }
 
 // PARAMETER TYPES //
 export type IdParam = { id: string }
@@ -777,6 +781,9 @@ export class Triggers {
 
     public static readonly ReactionAdded: Trigger<IHasReaction>
         = createDiscordEventTrigger('messageReactionAdd', (reaction) => { let message = reaction.message; return { reaction: reaction, message: message, user: reaction.users.cache.last(), member: undefined, guild: message.guild, channel: message.channel } })
+
+    public static readonly ButtonPressed: Trigger<IHasButton>
+        = createDiscordEventTrigger('interactionCreate', (interaction) => interaction.isButton() ? { button: interaction, user: interaction.user, channel: interaction.channel } : undefined)
 }
 
 /** Standard Conditions */
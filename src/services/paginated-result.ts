@@ -0,0 +1,215 @@
+import { BaseMessageOptions, ButtonInteraction, ButtonStyle, ComponentType, EmbedBuilder, Message, TextInputStyle } from "discord.js";
+import { CommandContext, SuccessLikeResult } from "./command-service";
+import { Interaction, InteractionLifetime, InteractionManager, IHasButton, Triggers, action, condition } from "./interaction-service";
+
+/** The custom id prefix of the page navigation buttons */
+export const PAGE_BUTTON_PREFIX = "page:"
+
+/** The navigation actions of a paginated result */
+export type PageAction = "first" | "prev" | "jump" | "next" | "last"
+
+/** A single page, either a plain description or a complete embed */
+export type Page = string | EmbedBuilder
+
+/** The default time in milliseconds the navigation stays usable without presses */
+const DEFAULT_PAGE_TIMEOUT = 5 * 60 * 1000
+
+/** Shows a list of pages with navigation buttons restricted to the invoking user */
+export class PaginatedResult extends SuccessLikeResult {
+    pages: Page[]                                // The pages to display
+    page: number = 0                             // The index of the current page
+    title: string                                // The title of pages built from plain descriptions
+    timeout: number = DEFAULT_PAGE_TIMEOUT       // The idle time in milliseconds before the controls are removed
+
+    private token: string                        // The unique token identifying the buttons of this result
+    private interaction: Interaction<IHasButton> // The interaction listening for button presses
+    private timer: NodeJS.Timeout                // The timer removing the controls when idle
+    private sent: Message                        // The message the pages are displayed on
+
+    constructor(ctx: CommandContext, pages: Page[], title: string = undefined) {
+        super(ctx)
+        this.pages = pages.length > 0 ? pages : [ctx.t("page.empty")]
+        this.title = title
+        this.token = Date.now().toString(36) + Math.random().toString(36).substring(2, 8)
+    }
+
+    /** Create a result listing the given lines, the given amount per page */
+    static fromItems(ctx: CommandContext, lines: string[], perPage: number = 10, title: string = undefined): PaginatedResult {
+        let pages: string[] = []
+        for (let i = 0; i < lines.length; i += perPage) {
+            pages.push(lines.slice(i, i + perPage).join("\n"))
+        }
+
+        return new PaginatedResult(ctx, pages, title)
+    }
+
+    /** Set the page to start at, one-based and clamped to the page range */
+    public startAt(page: number): this {
+        this.page = this.clamp(page - 1)
+        return this
+    }
+
+    /** Set the idle time in milliseconds before the controls are removed */
+    public timeoutAfter(ms: number): this {
+        this.timeout = ms
+        return this
+    }
+
+    // Clamp the given page index to the page range
+    private clamp(index: number): number {
+        return Math.min(Math.max(0, Math.floor(index)), this.pages.length - 1)
+    }
+
+    /** Render the current page with its navigation controls */
+    public buildMessage(): BaseMessageOptions {
+        let page = this.pages[this.page]
+        let pageText = this.ctx.t("page.footer", { page: this.page + 1, pages: this.pages.length })
+        let embed = typeof page == 'string' ?
+            new EmbedBuilder().setTitle(this.title || null).setDescription(page) :
+            EmbedBuilder.from(page)
+        if (this.pages.length > 1 && !embed.data.footer) {
+            embed.setFooter({ text: pageText })
+        }
+
+        if (this.pages.length <= 1) {
+            return { embeds: [embed] }
+        }
+
+        let first = this.page == 0
+        let last = this.page == this.pages.length - 1
+        return {
+            embeds: [embed],
+            components: [{
+                type: ComponentType.ActionRow,
+                components: [
+                    this.button("first", "⏮", first),
+                    this.button("prev", "◀", first),
+                    this.button("jump", (this.page + 1) + "/" + this.pages.length, false),
+                    this.button("next", "▶", last),
+                    this.button("last", "⏭", last)
+                ]
+            }]
+        }
+    }
+
+    // Create the data of the navigation button for the given action
+    private button(action: PageAction, label: string, disabled: boolean) {
+        return {
+            type: ComponentType.Button as const,
+            customId: PAGE_BUTTON_PREFIX + this.token + ":" + action,
+            label: label,
+            style: action == "jump" ? ButtonStyle.Primary as const : ButtonStyle.Secondary as const,
+            disabled: disabled
+        }
+    }
+
+    /** Send the first page and listen for navigation until the result times out */
+    public handleDefault(): Promise<Message> {
+        let sent = super.handleDefault()
+        if (this.pages.length <= 1) {
+            return sent
+        }
+
+        sent.then(msg => {
+            if (!msg)
+                return
+            this.sent = msg
+
+            let prefix = PAGE_BUTTON_PREFIX + this.token + ":"
+            this.interaction = InteractionManager.get().builder<IHasButton>()
+                .when(Triggers.ButtonPressed)
+                .onlyIf(condition(d => d.button.customId.startsWith(prefix)))
+                .then(action(d => this.onButton(d.button, d.button.customId.substring(prefix.length) as PageAction)))
+                .create()
+            this.interaction.lifetime = InteractionLifetime.PERSISTENT
+            this.resetTimer()
+        })
+
+        return sent
+    }
+
+    // (Re)start the timer removing the controls when idle
+    private resetTimer() {
+        clearTimeout(this.timer)
+        this.timer = setTimeout(() => this.close(), this.timeout)
+    }
+
+    /** Stop listening for navigation and remove the controls */
+    public close() {
+        let listening = this.interaction != undefined
+        this.dispose()
+        if (listening) {
+            this.sent.edit({ components: [] }).catch(() => { })
+        }
+    }
+
+    /** Stop listening for navigation, leaving the message as is */
+    public dispose() {
+        clearTimeout(this.timer)
+        if (this.interaction) {
+            this.interaction.destroy()
+            this.interaction = undefined
+        }
+    }
+
+    // Handle a press of one of the navigation buttons
+    private async onButton(button: ButtonInteraction, action: PageAction) {
+        if (button.user.id != this.ctx.author.id) {
+            return button.reply({ content: this.ctx.t("page.notAuthor"), ephemeral: true })
+        }
+
+        this.resetTimer()
+        switch (action) {
+            case "first": this.page = 0; break
+            case "prev":  this.page = this.clamp(this.page - 1); break
+            case "next":  this.page = this.clamp(this.page + 1); break
+            case "last":  this.page = this.pages.length - 1; break
+            case "jump":  return this.promptJump(button)
+        }
+
+        return button.update(this.buildMessage())
+    }
+
+    // Ask the user for a page to jump to with a modal
+    private async promptJump(button: ButtonInteraction) {
+        let customId = PAGE_BUTTON_PREFIX + this.token + ":jump-modal"
+        await button.showModal({
+            customId: customId,
+            title: this.ctx.t("page.jumpTitle"),
+            components: [{
+                type: ComponentType.ActionRow,
+                components: [{
+                    type: ComponentType.TextInput,
+                    customId: "page",
+                    label: this.ctx.t("page.jumpLabel", { pages: this.pages.length }),
+                    style: TextInputStyle.Short,
+                    required: true,
+                    maxLength: 6
+                }]
+            }]
+        })
+
+        let submit = await button.awaitModalSubmit({ filter: i => i.customId == customId, time: this.timeout }).catch(() => undefined)
+        if (!submit || !this.interaction)
+            return
+
+        let page = Number(submit.fields.getTextInputValue("page").trim())
+        if (!Number.isInteger(page) || page < 1 || page > this.pages.length) {
+            return submit.reply({ content: this.ctx.t("page.outOfRange", { pages: this.pages.length }), ephemeral: true })
+        }
+
+        this.resetTimer()
+        this.page = page - 1
+        if (submit.isFromMessage()) {
+            return submit.update(this.buildMessage())
+        }
+
+        await submit.deferUpdate()
+        return this.sent.edit(this.buildMessage())
+    }
+}
+
+/** Create a paginated result with the given pages */
+export function paginate(ctx: CommandContext, pages: Page[], title: string = undefined): PaginatedResult {
+    return new PaginatedResult(ctx, pages, title)
+}
@@ -0,0 +1 @@
+export * from './services/command-test-kit'
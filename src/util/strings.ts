@@ -5,6 +5,20 @@ import { logtrace } from "./logging"
 export const EOS: string = "\uFFFF"
 export const UNTIL_SPACE: (c: string) => boolean = c => c != ' '
 export const UNTIL_NEWLN: (c: string) => boolean = c => c != '\n'
+export const UNTIL_WHITESPACE: (c: string) => boolean = c => !isCharWhitespace(c)
+
+/** The closing quote for each supported opening quote, including smart quotes */
+export const QUOTE_PAIRS: Map<string, string> = new Map([
+    ['"', '"'], ["'", "'"],
+    ['\u201C', '\u201D'], ['\u201E', '\u201D'], ['\u201D', '\u201D'], // “...” „...” ”...”
+    ['\u2018', '\u2019'], ['\u201A', '\u2019'], ['\u2019', '\u2019'], // ‘...’ ‚...’ ’...’
+    ['\u00AB', '\u00BB'], ['\u00BB', '\u00AB']                          // «...» »...«
+])
+
+/** The characters produced by backslash escapes, any other escaped char is kept as is */
+export const ESCAPE_CHARS: Map<string, string> = new Map([
+    ['n', '\n'], ['t', '\t'], ['r', '\r'], ['0', '\0']
+])
 
 /** Truncates the given string to a safe length and appends the end */
 export function truncate(str: string, maxLen: number, end: string = "..."): string {
@@ -82,6 +96,13 @@ export function isCharWhitespace(char: string): boolean {
     return char == ' ' || char == '\t' || char == '\n' || char == '\r'
 }
 
+/** Quote the given string if needed so `StringReader.collectString` reads it back as is */
+export function quoteString(str: string): string {
+    if (str.length > 0 && ![...str].some(c => isCharWhitespace(c) || c == '\\' || QUOTE_PAIRS.has(c)))
+        return str
+    return '"' + str.replace(/[\\"]/g, c => '\\' + c) + '"'
+}
+
 export type StringifyOptions = {
     disableFormatting?: boolean
     floatDecimals?: number
@@ -178,15 +199,19 @@ export function epochTimeToSMS(time: number) {
 
 /** An error while parsing a string */
 export class ParseError extends Error {
-    text: string         // The error message
-    loc: StringLoc       // The location where the error happened
+    text: string                // The error message
+    loc: StringLoc              // The location where the error happened
+    key: string                 // The message key to localize the error with, optional
+    params: Record<string, any> // The parameters of the localized message
 
-    constructor(text: string, loc: StringLoc = undefined) {
+    constructor(text: string, loc: StringLoc = undefined, key: string = undefined, params: Record<string, any> = { }) {
         super()
         this.name = "ParseError"
 
         this.text = text
         this.loc = loc
+        this.key = key
+        this.params = params
 
         // construct the message
         this.message = this.text + (this.loc ? " @ " + stringify(this.loc) : "") 
@@ -298,7 +323,7 @@ export class StringReader {
         let si = this.idx
         for (let i = 0; i < c.length; i++) {
             if (this.current() != c.at(i)) {
-                throw new ParseError("Expected `" + c + "`", new StringLoc(this, si, this.idx))
+                throw new ParseError("Expected `" + c + "`", new StringLoc(this, si, this.idx), "parse.expected", { char: c })
             }
 
             this.next()
@@ -332,6 +357,69 @@ export class StringReader {
         return b.string()
     }
 
+    // Get the closing quote if the current char opens a quoted
+    // string, it has to start a token and be closed later on
+    private openingQuote(): string {
+        let close = QUOTE_PAIRS.get(this.current())
+        if (!close || (this.idx > 0 && !isCharWhitespace(this.str[this.idx - 1])))
+            return undefined
+
+        for (let i = this.idx + 1; i < this.str.length; i++) {
+            if (this.str[i] == '\\') i++
+            else if (this.str[i] == close) return close
+        }
+
+        return undefined
+    }
+
+    /**
+     * Collect a possibly quoted string with backslash escapes.
+     * Unquoted strings end at the first unescaped whitespace,
+     * quotes without a closing one are read literally.
+     * @returns The collected string without quotes
+     */
+    collectString(): string {
+        let b: StringBuilder = new StringBuilder()
+        let close = this.openingQuote()
+        if (close) {
+            this.next() // skip open quote
+        }
+
+        let c: string
+        while (true) {
+            c = this.current()
+            if (c == EOS) {
+                break
+            }
+
+            // check for the end of the string
+            if (close ? c == close : isCharWhitespace(c)) {
+                break
+            }
+
+            // read escape
+            if (c == '\\') {
+                c = this.next()
+                if (c == EOS) {
+                    throw new ParseError("Expected character to escape", new StringLoc(this, this.idx - 1, this.idx), "parse.escape")
+                }
+
+                b.append(ESCAPE_CHARS.has(c) ? ESCAPE_CHARS.get(c) : c)
+                this.next()
+                continue
+            }
+
+            b.append(c)
+            this.next()
+        }
+
+        if (close) {
+            this.next() // skip end quote
+        }
+
+        return b.string()
+    }
+
     /** Skips all whitespace until the next character */
     skipWhitespace() {
         let c = this.current()
@@ -347,6 +435,11 @@ export class StringReader {
     restore() {
         this.idx = this.ist.pop()
     }
+
+    /** Discard the last pushed index without restoring it */
+    popIndex() {
+        this.ist.pop()
+    }
 }
 
 /** Represents a result of a parse */
@@ -449,6 +542,76 @@ export interface Parser<T> {
      * @param value The value to stringify
      */
     emit(value: T): string
+
+    /**
+     * Suggest completions for the given partial input, optional
+     * @param ctx The parse context
+     * @param input The partial input
+     */
+    suggest?(ctx: ParseContext, input: string): string[] | Promise<string[]>
+}
+
+/** Attach the given suggestion provider to the parser */
+export function withSuggestions<P extends Parser<any>>(parser: P, suggest: (ctx: ParseContext, input: string) => string[] | Promise<string[]>): P {
+    parser.suggest = suggest
+    return parser
+}
+
+/** Select the candidates starting with the given partial input, ignoring case */
+export function matchSuggestions(candidates: Iterable<string>, input: string, limit: number = 25): string[] {
+    input = input.toLowerCase()
+    let list: string[] = []
+    for (let c of candidates) {
+        if (list.length >= limit)
+            break
+        if (c.toLowerCase().startsWith(input) && !list.includes(c))
+            list.push(c)
+    }
+
+    return list
+}
+
+/** Calculate the Damerau-Levenshtein distance (with adjacent transpositions) between the strings */
+export function editDistance(a: string, b: string): number {
+    let d: number[][] = []
+    for (let i = 0; i <= a.length; i++) {
+        d[i] = [i]
+    }
+
+    for (let j = 0; j <= b.length; j++) {
+        d[0][j] = j
+    }
+
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            let cost = a.charAt(i - 1) == b.charAt(j - 1) ? 0 : 1
+            d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost)
+            if (i > 1 && j > 1 && a.charAt(i - 1) == b.charAt(j - 2) && a.charAt(i - 2) == b.charAt(j - 1)) {
+                d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1)
+            }
+        }
+    }
+
+    return d[a.length][b.length]
+}
+
+/**
+ * Select the candidates closest to the given input by edit distance, ignoring case.
+ * @param maxDistance The maximum distance, by default a third of the inputs length but at least 1
+ */
+export function closestMatches(candidates: Iterable<string>, input: string, limit: number = 3, maxDistance: number = Math.max(1, Math.floor(input.length / 3))): string[] {
+    input = input.toLowerCase()
+    let matches: [string, number][] = []
+    for (let c of candidates) {
+        let distance = editDistance(c.toLowerCase(), input)
+        if (distance <= maxDistance && !matches.some(m => m[0] == c))
+            matches.push([c, distance])
+    }
+
+    return matches
+        .sort((a, b) => a[1] - b[1])
+        .slice(0, limit)
+        .map(m => m[0])
 }
 
 /* --------- Standard Parsers --------- */
@@ -490,25 +653,36 @@ export function isBase10Digit(c: string): boolean {
 export class Parsers {
     constructor() { }
 
-    public static readonly String: Parser<string> = newSyncParser<string>(ctx => {
-        let reader = ctx.getReader()
+    public static readonly String: Parser<string> = newSyncParser<string>(ctx => ctx.completedParse(ctx.getReader().collectString()))
 
-        if (reader.current() == '"' || reader.current() == "'") {
-            // collect quotes string
-            let quote = reader.current()
-            let str = reader.collect(c => c != quote)
-            reader.next() // skip end quote
+    public static readonly GreedyString: Parser<string> = newSyncParser<string>(ctx => ctx.completedParse(ctx.getReader().collect()))
 
-            return ctx.completedParse(str)
+    public static readonly Number: Parser<number> = newSyncParser<number>(ctx => {
+        let reader = ctx.getReader()
+        let ci = reader.idx
+
+        // collect signed number, underscores may separate digits
+        let sign = reader.current() == '-' || reader.current() == '+' ? reader.current() : ""
+        if (sign) reader.next()
+        let str = sign + reader.collect(c => isBase10Digit(c) || c == '.' || c == '_')
+        if (!/^[+-]?(\d[\d_]*(\.\d[\d_]*)?|\.\d[\d_]*)$/.test(str)) {
+            let token = reader.str.substring(ci).split(/\s/)[0]
+            return ctx.failedParse(new ParseError("Expected a number, got `" + token + "`", new StringLoc(reader, ci, ci + token.length), "parse.number", { input: token }))
         }
-        
-        // collect unquoted string
-        return ctx.completedParse(reader.collect(c => c != ' '))
+
+        return ctx.completedParse(parseFloat(str.replaceAll('_', '')))
     })
 
-    public static readonly GreedyString: Parser<string> = newSyncParser<string>(ctx => ctx.completedParse(ctx.getReader().collect()))
+    public static readonly Integer: Parser<number> = newSyncParser<number>(ctx => {
+        let reader = ctx.getReader()
+        let ci = reader.idx
+        let res = this.Number.parse(ctx)
+        if (!res.error && !Number.isInteger(res.value)) {
+            return ctx.failedParse(new ParseError("Expected a whole number, got `" + res.value + "`", new StringLoc(reader, ci, reader.idx), "parse.integer", { input: res.value }))
+        }
 
-    public static readonly Number: Parser<number> = newSyncParser<number>(ctx => ctx.completedParse(parseFloat(ctx.getReader().collect(c => (c >= '0' && c <= '9') || c == '.' || c == '_'))))
+        return res
+    })
 
     public static List<E>(elem: Parser<E>): Parser<Array<E>> {
         return newSyncParser<Array<E>>(ctx => {
@@ -564,7 +738,7 @@ export class Parsers {
         .set("M", 30 * 24 * 60 * 60 * 1000)
         .set("y", 365 * 24 * 60 * 60 * 1000)
 
-    public static readonly Duration: Parser<number> = newSyncParser<number>(ctx => {
+    public static readonly Duration: Parser<number> = withSuggestions(newSyncParser<number>(ctx => {
         let reader = ctx.getReader()
         let total = 0
 
@@ -576,15 +750,22 @@ export class Parsers {
             }
 
             let ci = reader.idx
-            let unit = reader.collect(c => !isBase10Digit(c) && c != ' ')
+            let unit = reader.collect(c => !isBase10Digit(c) && !isCharWhitespace(c))
             let ms = this.UNIT2MS_MAP.get(unit)
             if (!ms) {
-                return ctx.failedParse(new ParseError("No time unit by name `" + unit + "`", new StringLoc(reader, ci, reader.idx)))
+                return ctx.failedParse(new ParseError("No time unit by name `" + unit + "`", new StringLoc(reader, ci, reader.idx), "parse.timeUnit", { unit: unit }))
             }
 
             total += num * ms
         }
 
         return ctx.completedParse(total)
+    }), (ctx, input) => {
+        // suggest units for a trailing number
+        if (input.length != 0 && isBase10Digit(input.at(-1))) {
+            return [...this.UNIT2MS_MAP.keys()].map(u => input + u)
+        }
+
+        return matchSuggestions(["30s", "5m", "1h", "1d", "7d"], input)
     })
 }
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { User } from "discord.js";
+import { CommandTestKit } from "../src/testing";
+import { FailResult, Parsers, SuccessResult, flagSwitch, literal } from "../src/services/command-service";
+
+// Create a kit with a `ban` command taking users and a reason, where
+// user `c` is not cached and has to be fetched asynchronously
+function banKit(): { kit: CommandTestKit, a: User, b: User, c: User } {
+    let kit = new CommandTestKit()
+    let [a, b, c] = ["a", "b", "c"].map(name => kit.user({ username: name }))
+    kit.client.users.cache.delete(c.id)
+    ;(kit.client.users as any).fetch = (id: string) => Promise.resolve(id == c.id ? c : undefined)
+
+    kit.dispatcher.register(literal("ban")
+        .flag(flagSwitch("silent", false, ["s"]))
+        .thenArgument("users", Parsers.DiscordUser, users => users.variadic()
+            .thenArgument("reason", Parsers.GreedyString, reason => reason.greedy()
+                .executes(ctx => ctx.success(ctx.arg("users").get().map(u => u.username).join(",") + ": " + ctx.arg("reason").get() +
+                    (ctx.flag("silent").orElse(false) ? " (silent)" : ""))))))
+    return { kit: kit, a: a, b: b, c: c }
+}
+
+test("variadic arguments end at the first value not matching", async () => {
+    let { kit, a, b, c } = banKit()
+    let run = await kit.run("?ban " + a + " " + b + " " + c + " being rude", { handle: false })
+    assert.ok(run.result instanceof SuccessResult)
+    assert.equal(run.result.message, "a,b,c: being rude")
+})
+
+test("failed asynchronous values end variadic arguments", async () => {
+    let { kit, a } = banKit()
+    let run = await kit.run("?ban " + a + " <@12345> being rude", { handle: false })
+    assert.ok(run.result instanceof SuccessResult)
+    assert.equal(run.result.message, "a: <@12345> being rude")
+})
+
+test("greedy arguments skip the flags in between", async () => {
+    let { kit, a } = banKit()
+    let run = await kit.run("?ban " + a + " being -s rude", { handle: false })
+    assert.equal((run.result as SuccessResult).message, "a: being rude (silent)")
+})
+
+test("variadic arguments need at least one value", async () => {
+    let { kit } = banKit()
+    let run = await kit.run("?ban nobody at all", { handle: false })
+    assert.ok(run.result instanceof FailResult)
+})
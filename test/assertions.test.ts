@@ -0,0 +1,96 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { PermissionsBitField } from "discord.js";
+import { CommandTestKit, CommandTestOptions } from "../src/testing";
+import { CommandAssertion, CommandAssertions, FailResult, SuccessResult, literal } from "../src/services/command-service";
+
+// Run a command guarded by the given assertion, resolves to the failure message or `ok`
+async function check(kit: CommandTestKit, assertion: CommandAssertion, options: CommandTestOptions = { }): Promise<string> {
+    kit.dispatcher.register(literal("guarded")
+        .asserts(assertion)
+        .executes(ctx => ctx.success("ok")))
+    let run = await kit.run("?guarded", { ...options, handle: false })
+    assert.ok(run.result instanceof SuccessResult || run.result instanceof FailResult)
+    return run.result instanceof FailResult ? run.result.message : "ok"
+}
+
+test("guild and DM only commands check where they run", async () => {
+    let kit = new CommandTestKit()
+    let channel = kit.channel(kit.guild())
+    assert.match(await check(kit, CommandAssertions.GuildOnly()), /server/)
+    assert.equal(await check(kit, CommandAssertions.GuildOnly(), { channel: channel }), "ok")
+
+    kit = new CommandTestKit()
+    channel = kit.channel(kit.guild())
+    assert.equal(await check(kit, CommandAssertions.DMOnly()), "ok")
+    assert.notEqual(await check(kit, CommandAssertions.DMOnly(), { channel: channel }), "ok")
+})
+
+test("permissions fail instead of crashing outside guilds", async () => {
+    let kit = new CommandTestKit()
+    assert.notEqual(await check(kit, CommandAssertions.Permissions("economy.admin")), "ok")
+})
+
+test("owner only commands allow the given users", async () => {
+    let kit = new CommandTestKit()
+    let other = kit.user()
+    assert.equal(await check(kit, CommandAssertions.BotOwner(kit.defaultUser.id)), "ok")
+    assert.notEqual((await kit.run("?guarded", { author: other, handle: false })).result.success, true)
+})
+
+test("channel and category lists allow and deny", async () => {
+    let kit = new CommandTestKit()
+    let guild = kit.guild()
+    let games = kit.channel(guild, { parentId: "100" })
+    let general = kit.channel(guild, { parentId: "200" })
+    kit.dispatcher.register(literal("allowed").asserts(CommandAssertions.Channels(games.id)).executes(ctx => ctx.success("ok")))
+    kit.dispatcher.register(literal("denied").asserts(CommandAssertions.ExcludeChannels(games.id)).executes(ctx => ctx.success("ok")))
+    kit.dispatcher.register(literal("category").asserts(CommandAssertions.Categories("100")).executes(ctx => ctx.success("ok")))
+    kit.dispatcher.register(literal("nocategory").asserts(CommandAssertions.ExcludeCategories("100")).executes(ctx => ctx.success("ok")))
+
+    const succeeds = async (content: string, channel: any) => (await kit.run(content, { channel: channel, handle: false })).result.success
+    assert.equal(await succeeds("?allowed", games), true)
+    assert.equal(await succeeds("?allowed", general), false)
+    assert.equal(await succeeds("?denied", games), false)
+    assert.equal(await succeeds("?denied", general), true)
+    assert.equal(await succeeds("?category", games), true)
+    assert.equal(await succeeds("?category", general), false)
+    assert.equal(await succeeds("?nocategory", games), false)
+    assert.equal(await succeeds("?nocategory", general), true)
+})
+
+test("NSFW commands need an age-restricted channel", async () => {
+    let kit = new CommandTestKit()
+    let guild = kit.guild()
+    let nsfw = kit.channel(guild, { nsfw: true })
+    assert.equal(await check(kit, CommandAssertions.NSFW(), { channel: nsfw }), "ok")
+    assert.notEqual((await kit.run("?guarded", { channel: kit.channel(guild), handle: false })).result.success, true)
+})
+
+test("role requirements list the missing roles", async () => {
+    let kit = new CommandTestKit()
+    let guild = kit.guild()
+    let mod = kit.role(guild, { name: "mod" })
+    let admin = kit.role(guild, { name: "admin" })
+    kit.member(guild, kit.defaultUser, { roles: [mod] })
+    let channel = kit.channel(guild)
+
+    assert.equal(await check(kit, CommandAssertions.AnyRole(mod.id, admin.id), { channel: channel }), "ok")
+
+    kit.dispatcher.register(literal("both").asserts(CommandAssertions.Roles(mod.id, admin.id)).executes(ctx => ctx.success("ok")))
+    let run = await kit.run("?both", { channel: channel, handle: false })
+    assert.ok(run.result instanceof FailResult)
+    assert.ok(run.result.message.includes(admin.toString()))
+    assert.ok(!run.result.message.includes(mod.toString()))
+})
+
+test("bot permissions are checked for the bot member", async () => {
+    let kit = new CommandTestKit()
+    let guild = kit.guild()
+    kit.member(guild, kit.client.user, { permissions: [PermissionsBitField.Flags.SendMessages] })
+    let channel = kit.channel(guild)
+
+    assert.match(await check(kit, CommandAssertions.BotPermissions(PermissionsBitField.Flags.ManageRoles), { channel: channel }), /Manage Roles/i)
+    kit.dispatcher.register(literal("send").asserts(CommandAssertions.BotPermissions(PermissionsBitField.Flags.SendMessages)).executes(ctx => ctx.success("ok")))
+    assert.equal((await kit.run("?send", { channel: channel, handle: false })).result.success, true)
+})
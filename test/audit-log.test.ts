@@ -0,0 +1,59 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fsp } from "fs";
+import path from "path";
+import { CommandTestKit } from "../src/testing";
+import { AuditEntry, AuditLog, AuditService, fileAuditSink } from "../src/services/audit-service";
+import { AuditModule } from "../src/modules/audit-module";
+import { DATA_DIRECTORY } from "../src/util/paths";
+import { Parsers, argument, literal } from "../src/services/command-service";
+
+test("failed invocations are recorded with their message and prefix", async () => {
+    let entries: AuditEntry[] = []
+    let kit = new CommandTestKit()
+    kit.dispatcher.use(new AuditLog().use({ record: e => { entries.push(e) } }))
+    kit.dispatcher.register(literal("kick")
+        .then(argument("reason", Parsers.String)
+            .executes(ctx => ctx.fail("Can not kick for `" + ctx.arg("reason").get() + "`"))))
+
+    await kit.run("?kick spam", { handle: false })
+    await new Promise(resolve => setImmediate(resolve))
+
+    assert.equal(entries.length, 1)
+    assert.equal(entries[0].command, "?kick")
+    assert.equal(entries[0].success, false)
+    assert.equal(entries[0].error, "Can not kick for `spam`")
+    assert.deepEqual(entries[0].args, { reason: "spam" })
+})
+
+// Create an entry of the given user at the given time
+function entryAt(time: number, userId: string = "1"): AuditEntry {
+    return {
+        time: time, userId: userId, username: "user" + userId, guildId: "2", channelId: "3",
+        command: "?ping", path: "ping", args: { }, success: true, resultType: "SuccessResult", error: undefined, duration: 1
+    }
+}
+
+test("audit files are rotated and queried newest first", async () => {
+    let dir = "test-audit-" + process.pid
+    let maxSize = 2 * Buffer.byteLength(JSON.stringify(entryAt(1000)) + "\n")
+    let sink = fileAuditSink(dir + "/commands.jsonl", maxSize, 1)
+    try {
+        for (let time = 1000; time <= 1004; time++) {
+            await sink.record(entryAt(time, time == 1003 ? "9" : "1"))
+        }
+
+        // the oldest file was dropped
+        assert.deepEqual((await fsp.readdir(path.join(DATA_DIRECTORY, dir))).sort(), ["commands.1.jsonl", "commands.jsonl"])
+        assert.deepEqual((await sink.query({ })).map(e => e.time), [1004, 1003, 1002])
+        assert.deepEqual((await sink.query({ limit: 2 })).map(e => e.time), [1004, 1003])
+        assert.deepEqual((await sink.query({ userId: "1", limit: 2 })).map(e => e.time), [1004, 1002])
+    } finally {
+        await fsp.rm(path.join(DATA_DIRECTORY, dir), { recursive: true, force: true })
+    }
+})
+
+test("the audit log is only registered explicitly", () => {
+    let registered: any[] = global["___auto_register"] || []
+    assert.ok(!registered.some(e => e.classConstructor == AuditService || e.classConstructor == AuditModule))
+})
@@ -0,0 +1,92 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { CommandTestKit } from "../src/testing";
+import { FailResult, Parsers, flag, literal } from "../src/services/command-service";
+import { autocomplete, settle } from "./interactions";
+
+// Create a kit with a `mute` command taking a user, a duration and a reason flag
+function muteKit(): CommandTestKit {
+    let kit = new CommandTestKit()
+    kit.dispatcher.register(literal("mute")
+        .then(literal("add")
+            .flag(flag("duration", Parsers.Duration, undefined, ["d"]))
+            .thenArgument("user", Parsers.DiscordUser, user => user
+                .thenArgument("reason", Parsers.String, reason => reason
+                    .suggests((ctx, input) => ["spam", "insults", "raid"].filter(r => r.startsWith(input)))
+                    .executes(ctx => ctx.success("muted")))))
+        .then(literal("list")
+            .executes(ctx => ctx.success("list"))))
+    kit.dispatcher.buildApplicationCommands()
+    return kit
+}
+
+// Autocomplete the given option of `/mute add` and get the suggested names
+async function complete(kit: CommandTestKit, focused: string, value: string): Promise<string[]> {
+    let interaction = autocomplete(kit, "mute", focused, { sub: "add", options: { [focused]: value } })
+    await kit.dispatcher.onInteractionCreate(interaction)
+    await settle()
+    assert.equal(interaction.responses.length, 1)
+    assert.equal(interaction.responses[0].action, "respond")
+    return interaction.responses[0].payload.map((c: any) => c.name)
+}
+
+test("options with suggestions are marked for autocompletion", () => {
+    let data = muteKit().dispatcher.buildApplicationCommands() as any[]
+    let add = data[0].options.find((o: any) => o.name == "add")
+    let autocompleted = add.options.filter((o: any) => o.autocomplete).map((o: any) => o.name)
+    assert.deepEqual(autocompleted.sort(), ["duration", "reason"])
+})
+
+test("custom suggesters answer autocomplete interactions", async () => {
+    let kit = muteKit()
+    assert.deepEqual(await complete(kit, "reason", "r"), ["raid"])
+    assert.deepEqual(await complete(kit, "reason", ""), ["spam", "insults", "raid"])
+})
+
+test("durations suggest units for trailing numbers", async () => {
+    let kit = muteKit()
+    assert.deepEqual(await complete(kit, "duration", ""), ["30s", "5m", "1h", "1d", "7d"])
+    let units = await complete(kit, "duration", "10")
+    assert.ok(units.includes("10m"))
+    assert.ok(units.every(u => u.startsWith("10")))
+})
+
+test("unknown commands are answered without suggestions", async () => {
+    let kit = muteKit()
+    let interaction = autocomplete(kit, "ban", "user")
+    await kit.dispatcher.onInteractionCreate(interaction)
+    await settle()
+    assert.deepEqual(interaction.responses.map((r: any) => [r.action, r.payload]), [["respond", []]])
+})
+
+test("users are suggested from the guild members", async () => {
+    let kit = new CommandTestKit()
+    let guild = kit.guild()
+    kit.member(guild)
+    kit.member(guild, kit.user({ username: "alice" }))
+    kit.member(guild, kit.user({ username: "albert" }))
+    kit.user({ username: "alfred" })
+    kit.dispatcher.register(literal("noop").executes(ctx => ctx.success("noop")))
+
+    let { ctx } = await kit.run("?noop", { channel: kit.channel(guild), handle: false })
+    assert.deepEqual(Parsers.DiscordUser.suggest(ctx, "al"), ["alice", "albert"])
+    assert.ok((Parsers.DiscordUser.suggest(ctx, "") as string[]).includes("me"))
+})
+
+test("unknown subcommands suggest the matching literals", async () => {
+    let run = await muteKit().run("?mute lis", { handle: false })
+    assert.ok(run.result instanceof FailResult)
+    assert.ok(run.result.suggestions.includes("list"))
+})
+
+test("invalid arguments suggest values of their suggester", async () => {
+    let kit = new CommandTestKit()
+    kit.dispatcher.register(literal("volume")
+        .thenArgument("level", Parsers.Integer, level => level
+            .suggests(_ => ["10", "50", "100"])
+            .executes(ctx => ctx.success("set"))))
+
+    let run = await kit.run("?volume loud", { handle: false })
+    assert.ok(run.result instanceof FailResult)
+    assert.deepEqual(run.result.suggestions, ["10", "50", "100"])
+})
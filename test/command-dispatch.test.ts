@@ -0,0 +1,139 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { CommandTestKit } from "../src/testing";
+import { CommandContext, FailResult, Parsers, SuccessResult, argument, flag, flagSwitch, literal } from "../src/services/command-service";
+import { StringReader } from "../src/util/strings";
+import { Optional } from "../src/util/optional";
+
+// Create a kit with a command echoing its switch and flag values
+function flagKit(): CommandTestKit {
+    let kit = new CommandTestKit()
+    kit.dispatcher.register(literal("f")
+        .flag(flagSwitch("silent", false, ["s"]))
+        .flag(flag("name", Parsers.String, "none", ["n"]))
+        .executes(ctx => ctx.success("silent=" + ctx.flag("silent").orElse(false) + " name=" + ctx.flag("name").get())))
+    return kit
+}
+
+test("combined switches end with a flag taking the next value", async () => {
+    let run = await flagKit().run("?f -sn x", { handle: false })
+    assert.ok(run.result instanceof SuccessResult)
+    assert.equal(run.result.message, "silent=true name=x")
+})
+
+test("flags fall back to their defaults", async () => {
+    let run = await flagKit().run("?f", { handle: false })
+    assert.equal((run.result as SuccessResult).message, "silent=false name=none")
+})
+
+test("flags taking values can not be combined before others", async () => {
+    let run = await flagKit().run("?f -ns x", { handle: false })
+    assert.ok(run.result instanceof FailResult)
+    assert.match(run.result.message, /can not be combined/)
+})
+
+test("unknown flags suggest the closest ones", async () => {
+    let run = await flagKit().run("?f --nmae x", { handle: false })
+    assert.ok(run.result instanceof FailResult)
+    assert.deepEqual(run.result.suggestions, ["--name"])
+})
+
+test("arguments are parsed with their parser", async () => {
+    let kit = new CommandTestKit()
+    kit.dispatcher.register(literal("add")
+        .thenArgument("a", Parsers.Integer, a => a
+            .thenArgument("b", Parsers.Integer, b => b
+                .executes(ctx => ctx.success("" + (ctx.arg("a").get() + ctx.arg("b").get()))))))
+
+    assert.equal(((await kit.run("?add 2 40", { handle: false })).result as SuccessResult).message, "42")
+    let failed = (await kit.run("?add 2 x", { handle: false })).result
+    assert.ok(failed instanceof FailResult)
+    assert.match(failed.message, /Expected a number, got `x`/)
+})
+
+test("results are replied to the command message", async () => {
+    let kit = flagKit()
+    let run = await kit.run("?f -s")
+    assert.deepEqual(run.events.map(e => e.action), ["reply"])
+    assert.match(run.events[0].payload.embeds[0].data.description, /silent=true/)
+})
+
+test("cooldowns are only charged once the executor runs", async () => {
+    let kit = new CommandTestKit()
+    kit.dispatcher.register(literal("c")
+        .cooldown(60_000)
+        .then(argument("n", Parsers.Integer)
+            .executes(ctx => ctx.success("ran"))))
+
+    assert.ok((await kit.run("?c x", { handle: false })).result instanceof FailResult)
+    assert.equal(((await kit.run("?c 1", { handle: false })).result as SuccessResult).message, "ran")
+    let limited = (await kit.run("?c 2", { handle: false })).result
+    assert.ok(limited instanceof FailResult)
+    assert.match(limited.message, /cooldown/)
+})
+
+test("commands with the same name and different prefixes are kept apart", async () => {
+    let kit = new CommandTestKit()
+    kit.dispatcher.register(literal("ping").executes(ctx => ctx.success("standard")))
+    kit.dispatcher.register(literal("ping").prefix("!").executes(ctx => ctx.success("custom")))
+
+    assert.equal(((await kit.run("?ping", { handle: false })).result as SuccessResult).message, "standard")
+    assert.equal(((await kit.run("!ping", { handle: false })).result as SuccessResult).message, "custom")
+})
+
+test("durations end at any whitespace", async () => {
+    let kit = new CommandTestKit()
+    kit.dispatcher.register(literal("wait")
+        .thenArgument("time", Parsers.Duration, time => time
+            .thenArgument("reason", Parsers.String, reason => reason
+                .executes(ctx => ctx.success(ctx.arg("time").get() + " " + ctx.arg("reason").get())))))
+
+    assert.equal(((await kit.run("?wait 5m\tnow", { handle: false })).result as SuccessResult).message, "300000 now")
+    assert.equal(((await kit.run("?wait 1h\nnow", { handle: false })).result as SuccessResult).message, "3600000 now")
+})
+
+test("missing arguments are not asked for without a command message", async () => {
+    let kit = new CommandTestKit()
+    kit.dispatcher.register(literal("greet")
+        .then(argument("name", Parsers.String).prompt("Who to greet")
+            .executes(ctx => ctx.success("hi " + ctx.arg("name").get()))))
+
+    // like the contexts of rerun buttons
+    let ctx = new CommandContext()
+    ctx.reader = new StringReader("?greet")
+    ctx.author = kit.defaultUser
+    ctx.channel = kit.defaultChannel
+    ctx.guild = Optional.empty()
+    ctx.member = Optional.empty()
+
+    let result = await kit.dispatcher.dispatch(ctx)
+    assert.ok(result instanceof FailResult)
+    assert.match(result.message, /can not be asked for here/)
+})
+
+test("alias arguments keep their quotes", async () => {
+    let kit = new CommandTestKit()
+    let guild = kit.guild()
+    let channel = kit.channel(guild)
+    kit.dispatcher.register(literal("echo")
+        .thenArgument("first", Parsers.String, first => first
+            .thenArgument("second", Parsers.String, second => second
+                .executes(ctx => ctx.success(ctx.arg("first").get() + "|" + ctx.arg("second").get())))))
+    kit.dispatcher.guildAliases.set(guild.id, "say", { commands: ["echo $1 $2"], createdBy: kit.defaultUser.id })
+
+    let run = await kit.run('?say "a b" \'c "d"\'', { channel: channel, handle: false })
+    assert.equal((run.result as SuccessResult).message, 'a b|c "d"')
+})
+
+test("subcommands are found by their aliases like they are suggested", async () => {
+    let kit = new CommandTestKit()
+    kit.dispatcher.register(literal("xp")
+        .then(literal("give").aliases("add")
+            .executes(ctx => ctx.success("given"))))
+
+    assert.equal(((await kit.run("?xp add", { handle: false })).result as SuccessResult).message, "given")
+    let typo = (await kit.run("?xp adf", { handle: false })).result
+    assert.ok(typo instanceof FailResult)
+    assert.deepEqual(typo.suggestions, ["add"])
+    assert.deepEqual(typo.corrections, ["?xp add"])
+})
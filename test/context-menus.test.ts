@@ -0,0 +1,66 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ApplicationCommandType } from "discord.js";
+import { CommandTestKit } from "../src/testing";
+import { CommandAssertions, FailResult, messageContextMenu, userContextMenu } from "../src/services/command-service";
+import { contextMenu, settle } from "./interactions";
+
+// Create a kit with a guild only user context menu and a message context menu
+function menuKit(): CommandTestKit {
+    let kit = new CommandTestKit()
+    kit.dispatcher.register(userContextMenu("Warn user")
+        .asserts(CommandAssertions.GuildOnly())
+        .executes(ctx => ctx.success("warned " + ctx.targetUser.username + " (" + ctx.targetMember.map(m => m.displayName).orElse("no member") + ")")))
+    kit.dispatcher.register(messageContextMenu("Report message")
+        .executes(ctx => ctx.success("reported " + ctx.targetMessage.content)))
+    return kit
+}
+
+// Get the embed description of the response with the given index
+function description(interaction: any, index: number): string {
+    return interaction.responses[index].payload.embeds[0].data.description
+}
+
+test("context menus are built as application commands", () => {
+    let data = menuKit().dispatcher.buildApplicationCommands() as any[]
+    assert.deepEqual(data.map(d => [d.name, d.type]), [
+        ["Warn user", ApplicationCommandType.User],
+        ["Report message", ApplicationCommandType.Message]
+    ])
+})
+
+test("user context menus know the target user and member", async () => {
+    let kit = menuKit()
+    let guild = kit.guild()
+    let target = kit.user({ username: "spammer" })
+    kit.member(guild)
+    kit.member(guild, target, { nickname: "Spam Bot" })
+
+    let interaction = contextMenu(kit, "Warn user", target, { channel: kit.channel(guild) })
+    await kit.dispatcher.onInteractionCreate(interaction)
+    await settle()
+    assert.match(description(interaction, interaction.responses.length - 1), /warned spammer \(Spam Bot\)/)
+})
+
+test("message context menus know the target message", async () => {
+    let kit = menuKit()
+    let target = kit.message(kit.defaultChannel, kit.user(), "buy cheap followers")
+
+    let interaction = contextMenu(kit, "Report message", target)
+    await kit.dispatcher.onInteractionCreate(interaction)
+    await settle()
+    assert.match(description(interaction, interaction.responses.length - 1), /reported buy cheap followers/)
+})
+
+test("context menus check their assertions", async () => {
+    let kit = menuKit()
+    let interaction = contextMenu(kit, "Warn user", kit.user())
+    await kit.dispatcher.onInteractionCreate(interaction)
+    await settle()
+    assert.match(description(interaction, interaction.responses.length - 1), /only be used in servers/)
+})
+
+test("context menus are not text commands", async () => {
+    let run = await menuKit().run("?Warn user", { handle: false })
+    assert.ok(run.result instanceof FailResult)
+})
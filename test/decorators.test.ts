@@ -0,0 +1,96 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { CommandTestKit, CommandTestOptions } from "../src/testing";
+import { CommandContext, CommandResult, FailResult, Parsers, SuccessResult, arg, command, commandFlag, flagSwitch, literal, permission, registerCommands } from "../src/services/command-service";
+import { PermissionManager, Permit, RoleBasedPermissionGroup } from "../src/services/permission-service";
+
+class TagCommands {
+    @command("tag create", "Creates a tag")
+    @arg("name", Parsers.String)
+    @arg("content", Parsers.String, true)
+    @commandFlag(flagSwitch("global", false, ["g"]))
+    create(ctx: CommandContext<{ name: string, content: string }, { global: boolean }>): CommandResult {
+        return ctx.success("created " + ctx.arg("name").get() + "=" + (ctx.arg("content").get() ?? "empty") + (ctx.flag("global").get() ? " globally" : ""))
+    }
+
+    @command("tag purge")
+    @permission("tags.purge")
+    @arg("owner", Parsers.String, true)
+    purge(ctx: CommandContext<{ owner: string }>): CommandResult {
+        return ctx.success("purged " + (ctx.arg("owner").get() ?? "all"))
+    }
+
+    @command("roll", undefined, "!")
+    roll(ctx: CommandContext): CommandResult {
+        return ctx.success("rolled")
+    }
+
+    // not a command
+    helper(): string {
+        return "helper"
+    }
+}
+
+// Create a kit with the tag commands registered
+function tagKit(): CommandTestKit {
+    let kit = new CommandTestKit()
+    registerCommands(new TagCommands(), kit.dispatcher)
+    return kit
+}
+
+// Run the given content and get the message of its result
+async function message(kit: CommandTestKit, content: string, options: CommandTestOptions = { }): Promise<string> {
+    let run = await kit.run(content, { ...options, handle: false })
+    assert.ok(run.result instanceof SuccessResult || run.result instanceof FailResult)
+    return run.result.message as string
+}
+
+test("decorated methods are registered under their command path", async () => {
+    let kit = tagKit()
+    assert.equal(kit.dispatcher.findByName("tag").children.filter(c => c.literal).length, 2)
+    assert.equal(await message(kit, "?tag create hello world"), "created hello=world")
+    assert.equal(await message(kit, "?tag create hello -g"), "created hello=empty globally")
+})
+
+test("descriptions are set on the executing node", () => {
+    let create = tagKit().dispatcher.findByName("tag").children.find(c => c.name == "create")
+    let content = create.children[0].children[0]
+    assert.equal(content.name, "content")
+    assert.equal(content.optional, true)
+    assert.equal(content.meta.description, "Creates a tag")
+})
+
+test("declared prefixes are used", async () => {
+    let kit = tagKit()
+    assert.equal(await message(kit, "!roll"), "rolled")
+    assert.equal((await kit.run("?roll", { handle: false })).result.success, false)
+})
+
+test("decorated commands extend existing commands", async () => {
+    let kit = new CommandTestKit()
+    kit.dispatcher.register(literal("tag").then(literal("list").executes(ctx => ctx.success("listed"))))
+    registerCommands(new TagCommands(), kit.dispatcher)
+    assert.equal(kit.dispatcher.commands.filter(c => c.name == "tag").length, 1)
+    assert.equal(await message(kit, "?tag list"), "listed")
+    assert.equal(await message(kit, "?tag create a b"), "created a=b")
+})
+
+test("permissions are required with and without optional arguments", async () => {
+    let kit = tagKit()
+    let guild = kit.guild()
+    let tagger = kit.role(guild, { name: "tagger" })
+    let other = kit.user()
+    kit.member(guild, kit.defaultUser, { roles: [tagger] })
+    kit.member(guild, other)
+    let channel = kit.channel(guild)
+
+    let manager = new PermissionManager()
+    let group = new RoleBasedPermissionGroup(manager, "tagger")
+    group.roleId = tagger.id
+    manager.registerGroup(group.set("tags", Permit.ALLOW))
+
+    assert.equal(await message(kit, "?tag purge", { channel: channel }), "purged all")
+    assert.equal(await message(kit, "?tag purge bob", { channel: channel }), "purged bob")
+    assert.match(await message(kit, "?tag purge", { channel: channel, author: other }), /tags\.purge/)
+    assert.match(await message(kit, "?tag purge"), /tags\.purge/)
+})
@@ -0,0 +1,74 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { CommandTestKit } from "../src/testing";
+import { CommandResult, FailResult, Parsers, SuccessResult, flagSwitch, literal, usage } from "../src/services/command-service";
+import { PaginatedResult } from "../src/services/paginated-result";
+import { HelpModule } from "../src/modules/help-module";
+
+// Create a kit with the help command and a `tag` command with subcommands
+function helpKit(): CommandTestKit {
+    let kit = new CommandTestKit()
+    let module = new HelpModule()
+    module.dispatcher = kit.dispatcher
+    module.onLoad(undefined)
+
+    kit.dispatcher.register(literal("tag")
+        .description("Manages tags")
+        .aliases("t")
+        .then(literal("create")
+            .description("Creates a tag")
+            .flag(flagSwitch("global", false, ["g"]).description("Visible in all servers"))
+            .thenArgument("name", Parsers.String, name => name
+                .thenArgument("content", Parsers.GreedyString, content => content.greedy()
+                    .executes(ctx => ctx.success("created")))))
+        .then(literal("delete")
+            .thenArgument("name", Parsers.String, name => name
+                .executes(ctx => ctx.success("deleted")))))
+    return kit
+}
+
+// Get the title, description and fields by name of the embed of the given successful result
+function fields(result: CommandResult): Record<string, string> {
+    assert.ok(result instanceof SuccessResult && typeof result.message == 'object')
+    let embed = (result.message.embeds[0] as any).data
+    return Object.fromEntries([["title", embed.title], ["description", embed.description], ...(embed.fields || []).map((f: any) => [f.name, f.value])])
+}
+
+test("usage lines list all executable paths with their flags", () => {
+    let tag = helpKit().dispatcher.findByName("tag")
+    assert.deepEqual(usage([tag], "?"), [
+        "?tag create <name> <content...> [-global]",
+        "?tag delete <name>"
+    ])
+})
+
+test("the help command lists all commands", async () => {
+    let run = await helpKit().run("?help", { handle: false })
+    assert.ok(run.result instanceof PaginatedResult)
+    assert.match(run.result.pages.join("\n"), /`\?tag` - Manages tags/)
+    assert.match(run.result.pages.join("\n"), /`\?help`/)
+})
+
+test("the help command shows the usage of command paths", async () => {
+    let kit = helpKit()
+    let shown = fields((await kit.run("?help tag", { handle: false })).result)
+    assert.equal(shown.title, "?tag")
+    assert.equal(shown.description, "Manages tags")
+    assert.equal(shown.Aliases, "`t`")
+    assert.match(shown.Subcommands, /`create` - Creates a tag/)
+
+    shown = fields((await kit.run("?help ?t create", { handle: false })).result)
+    assert.equal(shown.title, "?tag create")
+    assert.equal(shown.Usage, "`?tag create <name> <content...> [-global]`")
+    assert.equal(shown.Flags, "`-global`, `-g` - Visible in all servers")
+
+    let run = await kit.run("?help tag rename", { handle: false })
+    assert.ok(run.result instanceof FailResult)
+    assert.match(run.result.message, /rename/)
+})
+
+test("parse errors hint at the usage of the command", async () => {
+    let run = await helpKit().run("?tag remove name", { handle: false })
+    assert.ok(run.result instanceof FailResult)
+    assert.deepEqual(run.result.usageLines, ["?tag create <name> <content...> [-global]", "?tag delete <name>"])
+})
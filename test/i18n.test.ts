@@ -0,0 +1,118 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { CommandTestKit } from "../src/testing";
+import { FailResult, Parsers, literal } from "../src/services/command-service";
+import { Translations } from "../src/services/i18n-service";
+import { LocaleModule } from "../src/modules/locale-module";
+import { chatInput, settle } from "./interactions";
+
+// Create translations with a German bundle for the number parse error
+function germanTranslations(): Translations {
+    return new Translations().addBundle("de", {
+        parse: { number: "Erwartet eine Zahl, nicht `{input}`" },
+        result: { parseError: "Fehler: {error}" }
+    })
+}
+
+// Create a kit with an `add` command taking an integer
+function addKit(): CommandTestKit {
+    let kit = new CommandTestKit()
+    kit.dispatcher.register(literal("add")
+        .thenArgument("amount", Parsers.Integer, amount => amount
+            .executes(ctx => ctx.success("added " + ctx.arg("amount").get()))))
+    return kit
+}
+
+test("bundle files are loaded by their locale name", () => {
+    let dir = mkdtempSync(path.join(tmpdir(), "lang-"))
+    writeFileSync(path.join(dir, "de.yml"), "help:\n  title: Befehle\n")
+    writeFileSync(path.join(dir, "fr.json"), JSON.stringify({ help: { title: "Commandes" } }))
+    writeFileSync(path.join(dir, "notes.txt"), "ignored")
+
+    let translations = new Translations()
+    assert.equal(translations.loadDirectory(dir), 2)
+    assert.deepEqual(translations.locales().sort(), ["de", "en-US", "fr"])
+    assert.equal(translations.translate("de", "help.title"), "Befehle")
+    assert.equal(translations.translate("fr", "help.title"), "Commandes")
+    assert.equal(translations.loadDirectory(path.join(dir, "missing")), 0)
+})
+
+test("missing messages fall back to the default locale and then the key", () => {
+    let translations = germanTranslations()
+    assert.equal(translations.translate("de", "help.title"), "Commands")
+    assert.equal(translations.translate("de", "no.such.key"), "no.such.key")
+    assert.equal(translations.translate("de", "no.such.key", { }, "fallback"), "fallback")
+    assert.equal(translations.translate("de-AT", "parse.number", { input: "x" }), "Erwartet eine Zahl, nicht `x`")
+})
+
+test("locales resolve from the user, the guild and the client in that order", () => {
+    let translations = germanTranslations().addBundle("fr", { })
+    assert.equal(translations.resolveLocale({ interactionLocale: "fr" }), "fr")
+    assert.equal(translations.resolveLocale({ interactionLocale: "ja" }), "en-US")
+
+    translations.setGuildLocale("guild", "de")
+    assert.equal(translations.resolveLocale({ userId: "user", guildId: "guild", interactionLocale: "fr" }), "de")
+
+    translations.setUserLocale("user", "fr")
+    assert.equal(translations.resolveLocale({ userId: "user", guildId: "guild" }), "fr")
+
+    translations.setUserLocale("user", undefined)
+    translations.setGuildLocale("guild", undefined)
+    assert.equal(translations.resolveLocale({ userId: "user", guildId: "guild" }), "en-US")
+})
+
+test("parse errors are translated into the guild locale", async () => {
+    let translations = germanTranslations()
+    let kit = addKit()
+    let guild = kit.guild()
+    kit.member(guild)
+    let channel = kit.channel(guild)
+
+    let run = await kit.run("?add many", { channel: channel, handle: false })
+    assert.ok(run.result instanceof FailResult)
+    assert.match(run.result.message, /Expected a number/)
+
+    translations.setGuildLocale(guild.id, "de")
+    run = await kit.run("?add many", { channel: channel, handle: false })
+    assert.ok(run.result instanceof FailResult)
+    assert.match(run.result.message, /^Fehler: Erwartet eine Zahl, nicht `many`/)
+})
+
+test("interactions respond in the client locale", async () => {
+    germanTranslations().addBundle("de", { help: { title: "Befehle" } })
+    let kit = new CommandTestKit()
+    kit.dispatcher.register(literal("title").executes(ctx => ctx.success(ctx.t("help.title"))))
+    kit.dispatcher.buildApplicationCommands()
+
+    let interaction = chatInput(kit, "title")
+    interaction.locale = "de"
+    await kit.dispatcher.onInteractionCreate(interaction)
+    await settle()
+    let last = interaction.responses[interaction.responses.length - 1]
+    assert.match(last.payload.embeds[0].data.description, /Befehle/)
+})
+
+test("users can choose their locale", async () => {
+    let translations = germanTranslations()
+    let kit = addKit()
+    let module = new LocaleModule()
+    module.dispatcher = kit.dispatcher
+    module.translations = translations
+    module.onLoad(undefined)
+
+    let run = await kit.run("?locale me klingon", { handle: false })
+    assert.ok(run.result instanceof FailResult)
+    assert.match(run.result.message, /klingon/)
+
+    await kit.run("?locale me de-DE", { handle: false })
+    assert.equal(translations.userLocales.get(kit.defaultUser.id), "de")
+    run = await kit.run("?add many", { handle: false })
+    assert.ok(run.result instanceof FailResult)
+    assert.match(run.result.message, /^Fehler/)
+
+    await kit.run("?locale me reset", { handle: false })
+    assert.equal(translations.userLocales.has(kit.defaultUser.id), false)
+})
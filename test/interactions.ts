@@ -0,0 +1,122 @@
+import { ApplicationCommandOptionType, ApplicationCommandType, GuildMember, Message, TextBasedChannel, User } from "discord.js";
+import { CommandTestKit } from "../src/testing";
+
+/** A response made to a mock interaction */
+export type MockResponse = {
+    action: string // The interaction method called, like `reply` or `respond`
+    payload: any   // The payload passed to it
+}
+
+/** Options for creating a mock interaction */
+export type MockInteractionOptions = {
+    user?: User                                        // The invoking user, defaults to the default user
+    channel?: TextBasedChannel                         // The channel, defaults to the default channel
+    member?: GuildMember                               // The invoking member, resolved from the channels guild by default
+    group?: string                                     // The subcommand group
+    sub?: string                                       // The subcommand
+    options?: Record<string, string | number | boolean> // The option values by name
+}
+
+// Create the shared part of all mock interactions
+function base(kit: CommandTestKit, opts: MockInteractionOptions) {
+    let channel: any = opts.channel || kit.defaultChannel
+    let user = opts.user || kit.defaultUser
+    let responses: MockResponse[] = []
+    const respond = (action: string, payload: any = undefined) => {
+        responses.push({ action: action, payload: payload })
+        return Promise.resolve(kit.message(channel, kit.client.user, typeof payload == 'object' && payload ? payload : ""))
+    }
+
+    let interaction: any = {
+        id: kit.snowflake(),
+        client: kit.client,
+        user: user,
+        channel: channel,
+        guild: channel.guild || null,
+        member: opts.member || (channel.guild ? channel.guild.members.cache.get(user.id) : null) || null,
+        locale: "en-US",
+        deferred: false,
+        replied: false,
+        responses: responses,
+        isCommand: () => false,
+        isChatInputCommand: () => false,
+        isContextMenuCommand: () => false,
+        isUserContextMenuCommand: () => false,
+        isMessageContextMenuCommand: () => false,
+        isAutocomplete: () => false,
+        isButton: () => false,
+        deferReply: (p: any) => { interaction.deferred = true; return respond("deferReply", p) },
+        reply: (p: any) => { interaction.replied = true; return respond("reply", p) },
+        editReply: (p: any) => respond("editReply", p),
+        followUp: (p: any) => respond("followUp", p),
+        deleteReply: () => respond("deleteReply"),
+        respond: (p: any) => respond("respond", p),
+        update: (p: any) => { interaction.replied = true; return respond("update", p) },
+        deferUpdate: () => { interaction.deferred = true; return respond("deferUpdate") },
+        showModal: (p: any) => { interaction.replied = true; return respond("showModal", p) },
+        awaitModalSubmit: () => Promise.reject(new Error("No modal submitted"))
+    }
+
+    let values = opts.options || { }
+    interaction.options = {
+        get: (name: string) => name in values ? { name: name, value: values[name] } : null,
+        getSubcommand: () => opts.sub || null,
+        getSubcommandGroup: () => opts.group || null
+    }
+
+    return interaction
+}
+
+/** Create a mock slash command interaction */
+export function chatInput(kit: CommandTestKit, commandName: string, opts: MockInteractionOptions = { }): any {
+    let interaction = base(kit, opts)
+    interaction.commandName = commandName
+    interaction.commandType = ApplicationCommandType.ChatInput
+    interaction.isCommand = () => true
+    interaction.isChatInputCommand = () => true
+    return interaction
+}
+
+/** Create a mock autocomplete interaction focused on the given option */
+export function autocomplete(kit: CommandTestKit, commandName: string, focused: string, opts: MockInteractionOptions = { }): any {
+    let interaction = base(kit, opts)
+    interaction.commandName = commandName
+    interaction.isAutocomplete = () => true
+    interaction.options.getFocused = () => ({ name: focused, value: (opts.options || { })[focused] ?? "", type: ApplicationCommandOptionType.String })
+    return interaction
+}
+
+/** Create a mock user or message context menu interaction on the given target */
+export function contextMenu(kit: CommandTestKit, name: string, target: User | Message, opts: MockInteractionOptions = { }): any {
+    let interaction = base(kit, opts)
+    let isMessage = target instanceof Object && 'content' in target
+    interaction.commandName = name
+    interaction.commandType = isMessage ? ApplicationCommandType.Message : ApplicationCommandType.User
+    interaction.targetId = target.id
+    interaction.isCommand = () => true
+    interaction.isContextMenuCommand = () => true
+    interaction.isUserContextMenuCommand = () => !isMessage
+    interaction.isMessageContextMenuCommand = () => isMessage
+    if (isMessage) {
+        interaction.targetMessage = target
+    } else {
+        interaction.targetUser = target
+        interaction.targetMember = interaction.guild ? interaction.guild.members.cache.get(target.id) || null : null
+    }
+
+    return interaction
+}
+
+/** Create a mock button press interaction on the given message */
+export function button(kit: CommandTestKit, customId: string, message: Message, opts: MockInteractionOptions = { }): any {
+    let interaction = base(kit, { channel: message.channel, ...opts })
+    interaction.customId = customId
+    interaction.message = message
+    interaction.isButton = () => true
+    return interaction
+}
+
+/** Wait for all pending promise callbacks */
+export function settle(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 0))
+}
@@ -0,0 +1,96 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { CommandTestKit } from "../src/testing";
+import { CommandBuilder, ConcurrencyResult, LockScope, SuccessResult, UncaughtErrorResult, literal } from "../src/services/command-service";
+
+// Register a `slow` command configured by the given function which
+// runs until the returned function is called
+function slowKit(configure: (builder: CommandBuilder) => CommandBuilder): { kit: CommandTestKit, finish: () => void } {
+    let kit = new CommandTestKit()
+    let waiting: (() => void)[] = []
+    kit.dispatcher.register(configure(literal("slow"))
+        .executes(ctx => new Promise(resolve => waiting.push(() => resolve(ctx.success("done"))))))
+    return { kit: kit, finish: () => waiting.splice(0).forEach(w => w()) }
+}
+
+// Wait until pending executions reached their executor
+function settle(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 5))
+}
+
+test("concurrent uses by the same user are rejected", async () => {
+    let { kit, finish } = slowKit(b => b.lock(LockScope.USER))
+    let first = kit.run("?slow", { handle: false })
+    await settle()
+
+    let second = await kit.run("?slow", { handle: false })
+    assert.ok(second.result instanceof ConcurrencyResult)
+    assert.match(second.result.message, /already using/)
+    let other = kit.run("?slow", { author: kit.user(), handle: false })
+    await settle()
+
+    finish()
+    assert.ok((await first).result instanceof SuccessResult)
+    assert.ok((await other).result instanceof SuccessResult)
+})
+
+test("custom lock messages are used", async () => {
+    let { kit, finish } = slowKit(b => b.lock(LockScope.GLOBAL, { message: "one at a time" }))
+    let first = kit.run("?slow", { handle: false })
+    await settle()
+
+    let second = await kit.run("?slow", { author: kit.user(), handle: false })
+    assert.equal((second.result as ConcurrencyResult).message, "one at a time")
+    finish()
+    await first
+})
+
+test("queued uses run once the slot is free", async () => {
+    let { kit, finish } = slowKit(b => b.lock(LockScope.GLOBAL, { queue: true }))
+    let first = kit.run("?slow", { handle: false })
+    await settle()
+    let second = kit.run("?slow", { handle: false })
+    await settle()
+
+    finish()
+    assert.ok((await first).result instanceof SuccessResult)
+    await settle()
+    finish()
+    assert.ok((await second).result instanceof SuccessResult)
+})
+
+test("queued uses time out", async () => {
+    let { kit, finish } = slowKit(b => b.lock(LockScope.GLOBAL, { queue: true, timeout: 10 }))
+    let first = kit.run("?slow", { handle: false })
+    await settle()
+
+    let second = await kit.run("?slow", { handle: false })
+    assert.ok(second.result instanceof ConcurrencyResult)
+    assert.match(second.result.message, /Timed out/)
+    finish()
+    await first
+})
+
+test("concurrency allows the given amount of executions", async () => {
+    let { kit, finish } = slowKit(b => b.concurrency(2))
+    let runs = [kit.run("?slow", { handle: false }), kit.run("?slow", { author: kit.user(), handle: false })]
+    await settle()
+
+    let third = await kit.run("?slow", { author: kit.user(), handle: false })
+    assert.ok(third.result instanceof ConcurrencyResult)
+    assert.match(third.result.message, /already in use/)
+    finish()
+    for (let run of await Promise.all(runs)) assert.ok(run.result instanceof SuccessResult)
+})
+
+test("errors of key functions are reported", async () => {
+    let kit = new CommandTestKit()
+    kit.dispatcher.register(literal("broken")
+        .lock(() => { throw new Error("no key") })
+        .executes(ctx => ctx.success("done")))
+
+    let run = await kit.run("?broken")
+    assert.ok(run.result instanceof UncaughtErrorResult)
+    assert.match(run.result.message, /no key/)
+    assert.equal(run.events.length, 1)
+})
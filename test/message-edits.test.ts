@@ -0,0 +1,63 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Message } from "discord.js";
+import { CommandTestKit } from "../src/testing";
+import { Parsers, literal } from "../src/services/command-service";
+import { settle } from "./interactions";
+
+// Create a kit with an `echo` command and send the given command message
+async function sendEcho(content: string): Promise<{ kit: CommandTestKit, message: Message }> {
+    let kit = new CommandTestKit()
+    kit.dispatcher.register(literal("echo")
+        .thenArgument("text", Parsers.GreedyString, text => text.greedy()
+            .executes(ctx => ctx.success(ctx.arg("text").get()))))
+
+    let message = kit.message(kit.defaultChannel, kit.defaultUser, content)
+    await kit.dispatcher.onMessageSent(message)
+    await settle()
+    return { kit: kit, message: message }
+}
+
+// Change the content of the given message and dispatch the update
+async function edit(kit: CommandTestKit, message: Message, content: string, partial: boolean = false) {
+    let old = partial ? { id: message.id, partial: true } : { ...message, partial: false }
+    ;(message as any).content = content
+    await kit.dispatcher.onMessageUpdate(old as any, message)
+    await settle()
+}
+
+// Get the embed description of the given recorded event
+function description(event: any): string {
+    return event.payload.embeds[0].data.description
+}
+
+test("edited commands are re-run into their previous reply", async () => {
+    let { kit, message } = await sendEcho("?echo helo")
+    assert.deepEqual(kit.events.map(e => e.action), ["reply"])
+    let reply = kit.events[0].message
+
+    await edit(kit, message, "?echo hello")
+    assert.deepEqual(kit.events.map(e => e.action), ["reply", "edit"])
+    assert.equal(kit.events[1].message, reply)
+    assert.match(description(kit.events[1]), /hello/)
+})
+
+test("updates of partial messages without content changes are ignored", async () => {
+    let { kit, message } = await sendEcho("?echo https://example.com")
+    await edit(kit, message, "?echo https://example.com", true)
+    assert.deepEqual(kit.events.map(e => e.action), ["reply"])
+
+    await edit(kit, message, "?echo https://example.org", true)
+    assert.deepEqual(kit.events.map(e => e.action), ["reply", "edit"])
+})
+
+test("replies are deleted when the command is edited away or deleted", async () => {
+    let { kit, message } = await sendEcho("?echo one")
+    await edit(kit, message, "just talking")
+    assert.deepEqual(kit.events.map(e => e.action), ["reply", "delete"])
+
+    let second = await sendEcho("?echo two")
+    await second.kit.dispatcher.onMessageDelete(second.message)
+    await settle()
+    assert.deepEqual(second.kit.events.map(e => e.action), ["reply", "delete"])
+})
@@ -0,0 +1,88 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Message, User } from "discord.js";
+import { CommandTestKit, CommandTestRun } from "../src/testing";
+import { literal } from "../src/services/command-service";
+import { PaginatedResult } from "../src/services/paginated-result";
+import { InteractionManager } from "../src/services/interaction-service";
+import { button, settle } from "./interactions";
+
+// Run a command listing 25 items, 10 per page
+async function runList(kit: CommandTestKit, configure: (result: PaginatedResult) => PaginatedResult = r => r): Promise<CommandTestRun> {
+    let items = Array.from({ length: 25 }, (_, i) => "item " + (i + 1))
+    kit.dispatcher.register(literal("list")
+        .executes(ctx => configure(PaginatedResult.fromItems(ctx, items, 10, "Items"))))
+    return kit.run("?list")
+}
+
+// Press the navigation button with the given label on the sent message
+async function press(kit: CommandTestKit, sent: Message, label: string, user: User = kit.defaultUser): Promise<any> {
+    let row = (sent as any).components[0]
+    let data = row.components.find((c: any) => c.label == label)
+    let interaction = button(kit, data.customId, sent, { user: user })
+    InteractionManager.get().all().forEach(i => i.trigger({ button: interaction, user: user, channel: sent.channel }))
+    await settle()
+    return interaction
+}
+
+// Get the description of the embed in the given message payload
+function description(payload: any): string {
+    return payload.embeds[0].data.description
+}
+
+test("items are split into pages with navigation", async () => {
+    let kit = new CommandTestKit()
+    let run = await runList(kit)
+    let sent = run.events[0].message
+    assert.equal(description(run.events[0].payload).split("\n").length, 10)
+    assert.match(run.events[0].payload.embeds[0].data.footer.text, /1.*3/)
+
+    let labels = run.events[0].payload.components[0].components.map((c: any) => [c.label, c.disabled])
+    assert.deepEqual(labels, [["⏮", true], ["◀", true], ["1/3", false], ["▶", false], ["⏭", false]])
+
+    let next = await press(kit, sent, "▶")
+    assert.equal(next.responses[0].action, "update")
+    assert.match(description(next.responses[0].payload), /^item 11\n/)
+
+    let last = await press(kit, sent, "⏭")
+    assert.equal(description(last.responses[0].payload), "item 21\nitem 22\nitem 23\nitem 24\nitem 25")
+    ;(run.result as PaginatedResult).dispose()
+})
+
+test("only the invoking user can navigate", async () => {
+    let kit = new CommandTestKit()
+    let run = await runList(kit)
+    let press1 = await press(kit, run.events[0].message, "▶", kit.user())
+    assert.equal(press1.responses[0].action, "reply")
+    assert.equal(press1.responses[0].payload.ephemeral, true)
+    assert.equal((run.result as PaginatedResult).page, 0)
+    ;(run.result as PaginatedResult).dispose()
+})
+
+test("single pages are sent without navigation", async () => {
+    let kit = new CommandTestKit()
+    kit.dispatcher.register(literal("one")
+        .executes(ctx => PaginatedResult.fromItems(ctx, ["only"])))
+    let run = await kit.run("?one")
+    assert.equal(run.events[0].payload.components, undefined)
+    assert.equal(description(run.events[0].payload), "only")
+})
+
+test("the start page is clamped to the page range", async () => {
+    let kit = new CommandTestKit()
+    let run = await runList(kit, r => r.startAt(7))
+    assert.match(description(run.events[0].payload), /^item 21\n/)
+    ;(run.result as PaginatedResult).dispose()
+})
+
+test("the controls are removed when idle", async () => {
+    let kit = new CommandTestKit()
+    let run = await runList(kit, r => r.timeoutAfter(5))
+    await new Promise(resolve => setTimeout(resolve, 20))
+
+    let edit = kit.events.find(e => e.action == "edit")
+    assert.ok(edit)
+    assert.deepEqual(edit.payload.components, [])
+    assert.equal(InteractionManager.get().all().size, 0)
+    assert.equal(edit.message, run.events[0].message)
+})
@@ -0,0 +1,180 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ChannelType, Guild, PermissionsBitField, TextBasedChannel, User } from "discord.js";
+import { CommandTestKit, CommandTestRun } from "../src/testing";
+import { FailResult, MutliFailResult, Parsers, SuccessResult, argument, literal } from "../src/services/command-service";
+import { Parser } from "../src/util/strings";
+
+// Create a kit with a guild containing the default user and a general channel
+function guildKit(): { kit: CommandTestKit, guild: Guild, owner: User, general: TextBasedChannel } {
+    let kit = new CommandTestKit()
+    let owner = kit.user({ username: "owner" })
+    let guild = kit.guild({ owner: owner })
+    kit.member(guild, owner)
+    kit.member(guild, kit.defaultUser, { permissions: [PermissionsBitField.Flags.ViewChannel, PermissionsBitField.Flags.ReadMessageHistory] })
+    return { kit: kit, guild: guild, owner: owner, general: kit.channel(guild, { name: "general" }) }
+}
+
+// Run `?p <input>` with a command echoing the value parsed by the given parser
+function parse<T>(kit: CommandTestKit, parser: Parser<T>, input: string, channel: TextBasedChannel, author: User = undefined, show: (value: T) => string = String): Promise<CommandTestRun> {
+    kit.dispatcher.register(literal("p")
+        .then(argument("value", parser)
+            .executes(ctx => ctx.success(show(ctx.arg("value").get())))))
+    return kit.run("?p " + input, { channel: channel, author: author, handle: false })
+}
+
+// Get the message of the first parse error of a failed run
+function parseError(run: CommandTestRun): string {
+    assert.ok(run.result instanceof FailResult)
+    return run.result instanceof MutliFailResult ? run.result.errors[0].message : run.result.message
+}
+
+test("messages are resolved from channel-message pairs", async () => {
+    let { kit, general, owner } = guildKit()
+    let message = kit.message(general, owner, "hello")
+    let run = await parse(kit, Parsers.DiscordMessage, general.id + "-" + message.id, general, undefined, m => m.content)
+    assert.ok(run.result instanceof SuccessResult)
+    assert.equal(run.result.message, "hello")
+})
+
+test("messages in channels the member can not read are not resolved", async () => {
+    let { kit, guild, general, owner } = guildKit()
+    let staff = kit.channel(guild, { name: "staff", denied: [PermissionsBitField.Flags.ViewChannel] })
+    let message = kit.message(staff, owner, "secret")
+
+    let run = await parse(kit, Parsers.DiscordMessage, staff.id + "-" + message.id, general, undefined, m => m.content)
+    assert.match(parseError(run), /can not read/)
+
+    run = await kit.run("?p " + staff.id + "-" + message.id, { channel: general, author: owner, handle: false })
+    assert.ok(run.result instanceof SuccessResult)
+    assert.equal(run.result.message, "secret")
+})
+
+test("messages in other servers are not resolved", async () => {
+    let { kit, general, owner } = guildKit()
+    let other = kit.channel(kit.guild({ owner: owner }))
+    let message = kit.message(other, owner, "elsewhere")
+    let run = await parse(kit, Parsers.DiscordMessage, other.id + "-" + message.id, general, owner)
+    assert.ok(run.result instanceof FailResult)
+})
+
+test("roles are resolved by mention and name", async () => {
+    let { kit, guild, general } = guildKit()
+    let role = kit.role(guild, { name: "Moderator" })
+    let run = await parse(kit, Parsers.DiscordRole, "<@&" + role.id + ">", general, undefined, r => r.id)
+    assert.equal((run.result as SuccessResult).message, role.id)
+
+    run = await kit.run("?p moderator", { channel: general, handle: false })
+    assert.equal((run.result as SuccessResult).message, role.id)
+})
+
+test("channels of the wrong type are rejected", async () => {
+    let { kit, guild, general } = guildKit()
+    let voice: any = kit.channel(guild, { name: "voice" })
+    voice.type = ChannelType.GuildVoice
+    let run = await parse(kit, Parsers.DiscordTextChannel, "#voice", general)
+    assert.ok(run.result instanceof FailResult)
+
+    run = await kit.run("?p #general", { channel: general, handle: false })
+    assert.equal((run.result as SuccessResult).message, general.toString())
+})
+
+test("emojis are resolved from the guild and unicode", async () => {
+    let { kit, guild, general } = guildKit()
+    let emoji = kit.emoji(guild, { name: "wave" })
+    let run = await parse(kit, Parsers.Emoji, ":wave:", general, undefined, e => e.id)
+    assert.equal((run.result as SuccessResult).message, emoji.id)
+
+    run = await kit.run("?p 👋", { channel: general, handle: false })
+    assert.ok(run.result instanceof SuccessResult)
+
+    run = await kit.run("?p wave2", { channel: general, handle: false })
+    assert.ok(run.result instanceof FailResult)
+})
+
+test("colors are parsed from hex codes and names", async () => {
+    let kit = new CommandTestKit()
+    let run = await parse(kit, Parsers.Color, "#ff8000", kit.defaultChannel)
+    assert.equal((run.result as SuccessResult).message, String(0xff8000))
+
+    run = await kit.run("?p #f80", { handle: false })
+    assert.equal((run.result as SuccessResult).message, String(0xff8800))
+
+    run = await kit.run("?p Red", { handle: false })
+    assert.ok(run.result instanceof SuccessResult)
+})
+
+test("dates are parsed from timestamps and ISO dates", async () => {
+    let kit = new CommandTestKit()
+    let run = await parse(kit, Parsers.Date, "<t:1700000000:F>", kit.defaultChannel, undefined, d => String(d.getTime()))
+    assert.equal((run.result as SuccessResult).message, "1700000000000")
+
+    run = await kit.run("?p 2024-03-05 13:30", { handle: false })
+    assert.equal((run.result as SuccessResult).message, String(new Date(2024, 2, 5, 13, 30).getTime()))
+
+    run = await kit.run("?p someday", { handle: false })
+    assert.ok(run.result instanceof FailResult)
+})
+
+test("choices map their names to values", async () => {
+    let kit = new CommandTestKit()
+    let run = await parse(kit, Parsers.Choice({ low: 1, high: 10 }), "HIGH", kit.defaultChannel)
+    assert.equal((run.result as SuccessResult).message, "10")
+
+    run = await kit.run("?p medium", { handle: false })
+    assert.match(parseError(run), /`low`, `high`/)
+})
+
+test("choices are exported as application command choices", () => {
+    let kit = new CommandTestKit()
+    kit.dispatcher.register(literal("level")
+        .then(argument("level", Parsers.Choice(["low", "high"]))
+            .executes(ctx => ctx.success(ctx.arg("level").get()))))
+    let data = kit.dispatcher.buildApplicationCommands() as any[]
+    assert.deepEqual(data[0].options[0].choices, [{ name: "low", value: "low" }, { name: "high", value: "high" }])
+})
+
+test("regex parsers only accept full matches", async () => {
+    let kit = new CommandTestKit()
+    let run = await parse(kit, Parsers.Regex(/[a-z]{3}-\d+/, "abc-123"), "xyz-42", kit.defaultChannel)
+    assert.equal((run.result as SuccessResult).message, "xyz-42")
+
+    run = await kit.run("?p xyz-42a", { handle: false })
+    assert.match(parseError(run), /abc-123/)
+})
+
+test("bounded numbers reject values outside their range", async () => {
+    let kit = new CommandTestKit()
+    let run = await parse(kit, Parsers.BoundedInteger(1, 10), "10", kit.defaultChannel)
+    assert.equal((run.result as SuccessResult).message, "10")
+
+    run = await kit.run("?p 11", { handle: false })
+    assert.ok(run.result instanceof FailResult)
+
+    run = await kit.run("?p 2.5", { handle: false })
+    assert.ok(run.result instanceof FailResult)
+})
+
+test("numbers reject input that is not a number", async () => {
+    let kit = new CommandTestKit()
+    let run = await parse(kit, Parsers.BoundedNumber(0), "abc", kit.defaultChannel)
+    assert.ok(run.result instanceof FailResult)
+
+    run = await kit.run("?p -1", { handle: false })
+    assert.ok(run.result instanceof FailResult)
+
+    run = await kit.run("?p 0.5", { handle: false })
+    assert.equal((run.result as SuccessResult).message, "0.5")
+})
+
+test("bounded strings check their length", async () => {
+    let kit = new CommandTestKit()
+    let run = await parse(kit, Parsers.BoundedString(2, 4), "abcde", kit.defaultChannel)
+    assert.match(parseError(run), /4/)
+
+    run = await kit.run("?p a", { handle: false })
+    assert.ok(run.result instanceof FailResult)
+
+    run = await kit.run("?p abc", { handle: false })
+    assert.equal((run.result as SuccessResult).message, "abc")
+})
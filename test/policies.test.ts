@@ -0,0 +1,77 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Guild, Role, TextBasedChannel, User } from "discord.js";
+import { CommandTestKit } from "../src/testing";
+import { FailResult, SuccessResult, literal } from "../src/services/command-service";
+import { PolicyModule } from "../src/modules/policy-module";
+
+// Create a kit with the policy command, an `xp` command and a second member with a role
+function policyKit(): { kit: CommandTestKit, guild: Guild, general: TextBasedChannel, games: TextBasedChannel, other: User, helper: Role } {
+    let kit = new CommandTestKit()
+    let guild = kit.guild()
+    let helper = kit.role(guild, { name: "helper" })
+    let other = kit.user({ username: "other" })
+    kit.member(guild)
+    kit.member(guild, other, { roles: [helper] })
+
+    let module = new PolicyModule()
+    module.dispatcher = kit.dispatcher
+    module.onLoad(undefined)
+    kit.dispatcher.register(literal("xp")
+        .then(literal("give").executes(ctx => ctx.success("given")))
+        .then(literal("top").executes(ctx => ctx.success("top"))))
+
+    return { kit: kit, guild: guild, general: kit.channel(guild, { name: "general" }), games: kit.channel(guild, { name: "games" }), other: other, helper: helper }
+}
+
+test("commands can be disabled in single channels", async () => {
+    let { kit, general, games } = policyKit()
+    let run = await kit.run("?commands disable xp give " + games, { channel: general, handle: false })
+    assert.ok(run.result instanceof SuccessResult)
+
+    run = await kit.run("?xp give", { channel: games, handle: false })
+    assert.ok(run.result instanceof FailResult)
+    assert.match(run.result.message, /xp give/)
+
+    assert.equal((await kit.run("?xp give", { channel: general, handle: false })).result.success, true)
+    assert.equal((await kit.run("?xp top", { channel: games, handle: false })).result.success, true)
+})
+
+test("disabled parent commands disable their subcommands", async () => {
+    let { kit, general } = policyKit()
+    await kit.run("?commands disable xp", { channel: general, handle: false })
+    assert.equal((await kit.run("?xp top", { channel: general, handle: false })).result.success, false)
+
+    await kit.run("?commands enable xp", { channel: general, handle: false })
+    assert.equal((await kit.run("?xp top", { channel: general, handle: false })).result.success, true)
+})
+
+test("enabling a disabled command in a channel only allows it there", async () => {
+    let { kit, general, games } = policyKit()
+    await kit.run("?commands disable xp", { channel: general, handle: false })
+    await kit.run("?commands enable xp " + games, { channel: general, handle: false })
+    assert.equal((await kit.run("?xp top", { channel: games, handle: false })).result.success, true)
+    assert.equal((await kit.run("?xp top", { channel: general, handle: false })).result.success, false)
+})
+
+test("bypass roles are not restricted", async () => {
+    let { kit, general, other, helper } = policyKit()
+    await kit.run("?commands disable xp", { channel: general, handle: false })
+    await kit.run("?commands bypass " + helper + " xp", { channel: general, handle: false })
+    assert.equal((await kit.run("?xp top", { channel: general, author: other, handle: false })).result.success, true)
+    assert.equal((await kit.run("?xp top", { channel: general, handle: false })).result.success, false)
+})
+
+test("the policy command can not be restricted", async () => {
+    let { kit, general } = policyKit()
+    let run = await kit.run("?commands disable commands", { channel: general, handle: false })
+    assert.ok(run.result instanceof FailResult)
+    assert.equal((await kit.run("?commands", { channel: general, handle: false })).result.success, true)
+})
+
+test("only server managers can change policies", async () => {
+    let { kit, guild, general, other } = policyKit()
+    let run = await kit.run("?commands disable xp", { channel: general, author: other, handle: false })
+    assert.ok(run.result instanceof FailResult)
+    assert.equal(kit.dispatcher.guildPolicies.all(guild.id).size, 0)
+})
@@ -0,0 +1,67 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ApplicationCommandOptionType } from "discord.js";
+import { CommandTestKit } from "../src/testing";
+import { Parsers, flag, literal } from "../src/services/command-service";
+import { chatInput, settle } from "./interactions";
+
+// Create a kit with an `xp` command with a subcommand group
+function xpKit(): CommandTestKit {
+    let kit = new CommandTestKit()
+    kit.dispatcher.register(literal("xp")
+        .description("Manages experience")
+        .then(literal("give")
+            .flag(flag("reason", Parsers.String, undefined, ["r"]))
+            .thenArgument("amount", Parsers.Integer, amount => amount
+                .executes(ctx => ctx.success("gave " + ctx.arg("amount").get() + " for " + ctx.flag("reason").orElse("nothing")))))
+        .then(literal("top")
+            .executes(ctx => ctx.success("top"))))
+    return kit
+}
+
+test("command trees are built into application commands", () => {
+    let data = xpKit().dispatcher.buildApplicationCommands() as any[]
+    assert.equal(data.length, 1)
+    assert.equal(data[0].name, "xp")
+    assert.equal(data[0].description, "Manages experience")
+
+    let give = data[0].options.find((o: any) => o.name == "give")
+    assert.equal(give.type, ApplicationCommandOptionType.Subcommand)
+    assert.deepEqual(give.options.map((o: any) => [o.name, o.type, o.required]), [
+        ["amount", ApplicationCommandOptionType.Integer, true],
+        ["reason", ApplicationCommandOptionType.String, false]
+    ])
+})
+
+test("commands sharing a name across prefixes are only built once", () => {
+    let kit = new CommandTestKit()
+    kit.dispatcher.register(literal("ping").executes(ctx => ctx.success("standard")))
+    kit.dispatcher.register(literal("ping").prefix("!").executes(ctx => ctx.success("custom")))
+
+    let data = kit.dispatcher.buildApplicationCommands() as any[]
+    assert.deepEqual(data.map(d => d.name), ["ping"])
+})
+
+test("slash commands run the executors of their path", async () => {
+    let kit = xpKit()
+    kit.dispatcher.buildApplicationCommands()
+
+    let interaction = chatInput(kit, "xp", { sub: "give", options: { amount: 5, reason: "helping" } })
+    await kit.dispatcher.onInteractionCreate(interaction)
+    await settle()
+
+    assert.deepEqual(interaction.responses.map((r: any) => r.action), ["deferReply", "editReply"])
+    assert.match(interaction.responses[1].payload.embeds[0].data.description, /gave 5 for helping/)
+})
+
+test("expired interactions are not dispatched", async () => {
+    let kit = xpKit()
+    kit.dispatcher.buildApplicationCommands()
+
+    let interaction = chatInput(kit, "xp", { sub: "top" })
+    interaction.deferReply = () => Promise.reject(new Error("Unknown interaction"))
+    await kit.dispatcher.onInteractionCreate(interaction)
+    await settle()
+
+    assert.deepEqual(interaction.responses, [])
+})
@@ -0,0 +1,36 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { EOS, StringReader, quoteString } from "../src/util/strings";
+
+// Collect all strings of the given text
+function collectAll(text: string): string[] {
+    let reader = new StringReader(text)
+    let list: string[] = []
+    reader.skipWhitespace()
+    while (reader.current() != EOS) {
+        list.push(reader.collectString())
+        reader.skipWhitespace()
+    }
+
+    return list
+}
+
+test("quoted strings keep their whitespace and escapes", () => {
+    assert.deepEqual(collectAll('"a b" \'c\td\' “smart quotes”'), ["a b", "c\td", "smart quotes"])
+    assert.deepEqual(collectAll('"say \\"hi\\"" x\\ y'), ['say "hi"', "x y"])
+})
+
+test("words are separated by any whitespace", () => {
+    assert.deepEqual(collectAll("a\tb\nc  d"), ["a", "b", "c", "d"])
+})
+
+test("unclosed quotes starting a word are read literally", () => {
+    assert.deepEqual(collectAll("'tis the ’90s"), ["'tis", "the", "’90s"])
+    assert.deepEqual(collectAll("it's fine"), ["it's", "fine"])
+})
+
+test("quoted strings are read back as they were", () => {
+    for (let value of ["plain", "two words", 'a "quote"', "back\\slash", ""]) {
+        assert.deepEqual(collectAll(quoteString(value)), [value])
+    }
+})
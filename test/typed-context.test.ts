@@ -0,0 +1,70 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { CommandTestKit } from "../src/testing";
+import { CommandContext, CommandResult, Parsers, SuccessResult, arg, command, commandFlag, flag, literal, registerCommands } from "../src/services/command-service";
+
+// The names and types are checked when compiling the tests,
+// each expected error fails the test run if it is missing
+
+test("builder contexts only know the arguments and flags of their path", async () => {
+    let kit = new CommandTestKit()
+    kit.dispatcher.register(literal("add")
+        .flag(flag("times", Parsers.Integer, 1, ["t"]))
+        .thenArgument("a", Parsers.Integer, a => a
+            .thenArgument("b", Parsers.Integer, b => b
+                .executes(ctx => {
+                    // @ts-expect-error unknown argument
+                    ctx.arg("c")
+                    // @ts-expect-error unknown flag
+                    ctx.flag("repeat")
+                    // @ts-expect-error arguments are not flags
+                    ctx.flag("a")
+
+                    let sum: number = ctx.arg("a").get() + ctx.arg("b").get()
+                    return ctx.success("" + sum * ctx.flag("times").get())
+                }))))
+
+    let run = await kit.run("?add 2 3 -t 2", { handle: false })
+    assert.equal((run.result as SuccessResult).message, "10")
+})
+
+test("children added with then only know their own arguments", () => {
+    literal("outer")
+        .then(literal("inner")
+            .executes(ctx => {
+                // @ts-expect-error the child does not know the flags of its parent
+                ctx.flag("verbose")
+                return ctx.success()
+            }))
+        .flag(flag("verbose", Parsers.String))
+})
+
+test("decorated methods have to know their arguments and flags", async () => {
+    class Commands {
+        @command("greet")
+        @arg("name", Parsers.String)
+        @commandFlag(flag("loud", Parsers.String))
+        greet(ctx: CommandContext<{ name: string }, { loud: string }>): CommandResult {
+            return ctx.success("hi " + ctx.arg("name").get() + ctx.flag("loud").orElse(""))
+        }
+
+        @command("count")
+        // @ts-expect-error the context does not know the argument
+        @arg("amount", Parsers.Integer)
+        count(ctx: CommandContext<{ total: number }>): CommandResult {
+            return ctx.success()
+        }
+
+        @command("repeat")
+        // @ts-expect-error the argument has a different type
+        @arg("times", Parsers.Integer)
+        repeat(ctx: CommandContext<{ times: string }>): CommandResult {
+            return ctx.success()
+        }
+    }
+
+    let kit = new CommandTestKit()
+    registerCommands(new Commands(), kit.dispatcher)
+    let run = await kit.run("?greet you --loud !", { handle: false })
+    assert.equal((run.result as SuccessResult).message, "hi you!")
+})